@@ -2,7 +2,9 @@
 import React, { useState, useMemo } from 'react';
 import { Sparkles, MessageSquare, Image, Edit, Search, Volume2, Mic, BrainCircuit, Bot, LayoutGrid, LogOut } from 'lucide-react';
 import { AuthProvider, useAuth } from './hooks/useAuth';
+import { ImageHandoffProvider } from './hooks/useImageHandoff';
 import { supabase } from './services/supabaseClient';
+import { getAIProvider } from './services/aiProvider';
 
 import AuthComponent from './components/Auth';
 import Chatbot from './components/Chatbot';
@@ -43,48 +45,55 @@ const AppContent: React.FC = () => {
   };
 
   return (
-    <div className="flex h-screen bg-slate-900 text-gray-200 font-sans">
-      <nav className="w-16 md:w-64 bg-slate-950/70 p-2 md:p-4 flex flex-col border-r border-slate-800">
-        <div className="flex items-center md:justify-center mb-8 px-2">
-          <img src="https://eburon.vercel.app/logo-dark.png" alt="EBURON AI Logo" className="h-10 w-auto" />
-        </div>
-        <ul className="space-y-2 flex-1">
-          {features.map((feature) => (
-            <li key={feature.id}>
-              <button
-                onClick={() => setActiveFeature(feature.id as Feature)}
-                className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors ${
-                  activeFeature === feature.id
-                    ? 'bg-cyan-500/20 text-cyan-400'
-                    : 'hover:bg-slate-800/50'
-                }`}
-              >
-                <feature.icon className="h-5 w-5 flex-shrink-0" />
-                <span className="hidden md:block">{feature.name}</span>
-              </button>
-            </li>
-          ))}
-        </ul>
-        <div className="mt-auto">
-            <div className="border-t border-slate-800 -mx-2 md:-mx-4 my-2"></div>
-            <div className="hidden md:block px-2 mb-2">
-                <p className="text-sm text-slate-400 truncate">Signed in as:</p>
-                <p className="text-xs text-slate-500 truncate">{user?.email}</p>
-            </div>
-             <button
-                onClick={handleLogout}
-                className="w-full flex items-center gap-3 p-3 rounded-lg transition-colors hover:bg-red-500/20 hover:text-red-400 text-slate-400"
-              >
-                <LogOut className="h-5 w-5 flex-shrink-0" />
-                <span className="hidden md:block">Logout</span>
-              </button>
-        </div>
-      </nav>
+    <ImageHandoffProvider onNavigate={setActiveFeature}>
+      <div className="flex h-screen bg-slate-900 text-gray-200 font-sans">
+        <nav className="w-16 md:w-64 bg-slate-950/70 p-2 md:p-4 flex flex-col border-r border-slate-800">
+          <div className="flex items-center md:justify-center mb-8 px-2">
+            <img src="https://eburon.vercel.app/logo-dark.png" alt="EBURON AI Logo" className="h-10 w-auto" />
+          </div>
+          <ul className="space-y-2 flex-1">
+            {features.map((feature) => (
+              <li key={feature.id}>
+                <button
+                  onClick={() => setActiveFeature(feature.id as Feature)}
+                  className={`w-full flex items-center gap-3 p-3 rounded-lg transition-colors ${
+                    activeFeature === feature.id
+                      ? 'bg-cyan-500/20 text-cyan-400'
+                      : 'hover:bg-slate-800/50'
+                  }`}
+                >
+                  <feature.icon className="h-5 w-5 flex-shrink-0" />
+                  <span className="hidden md:block">{feature.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-auto">
+              <div className="border-t border-slate-800 -mx-2 md:-mx-4 my-2"></div>
+              {getAIProvider().id === 'mock' && (
+                  <p className="hidden md:block mx-2 mb-2 px-2 py-1 rounded-md bg-amber-500/10 text-amber-400 text-xs" title="Set GEMINI_API_KEY to use Gemini">
+                      {getAIProvider().name} AI
+                  </p>
+              )}
+              <div className="hidden md:block px-2 mb-2">
+                  <p className="text-sm text-slate-400 truncate">Signed in as:</p>
+                  <p className="text-xs text-slate-500 truncate">{user?.email}</p>
+              </div>
+               <button
+                  onClick={handleLogout}
+                  className="w-full flex items-center gap-3 p-3 rounded-lg transition-colors hover:bg-red-500/20 hover:text-red-400 text-slate-400"
+                >
+                  <LogOut className="h-5 w-5 flex-shrink-0" />
+                  <span className="hidden md:block">Logout</span>
+                </button>
+          </div>
+        </nav>
 
-      <main className="flex-1 flex flex-col overflow-hidden">
-        {activeComponent}
-      </main>
-    </div>
+        <main className="flex-1 flex flex-col overflow-hidden">
+          {activeComponent}
+        </main>
+      </div>
+    </ImageHandoffProvider>
   );
 };
 
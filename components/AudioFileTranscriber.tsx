@@ -0,0 +1,249 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, Square, UploadCloud, FileAudio, X, Sparkles } from 'lucide-react';
+import { transcribeAudio, PartialTranscriptionError, TranscriptSegment } from '../services/geminiService';
+import { formatDuration } from '../services/audioFiles';
+
+interface AudioFileTranscriberProps {
+  /** A BCP 47 tag, or an empty string to detect the language. */
+  language: string;
+  /** The player for the chosen audio, so the transcript can play parts of it. */
+  audioRef: React.RefObject<HTMLAudioElement>;
+  /** Called when a recording or upload replaces the audio, or it is removed. */
+  onAudioChange: (file: File | null) => void;
+  /** Receives the transcript as it grows, part by part. */
+  onTranscript: (segments: TranscriptSegment[]) => void;
+  /**
+   * Called once a transcription finishes, is stopped, or fails after some parts, with the
+   * audio it was made from. `isPartial` is set when a part failed.
+   */
+  onComplete: (segments: TranscriptSegment[], audio: File, isPartial: boolean) => void;
+  onTimeUpdate: (time: number) => void;
+  /** Reports whether a recording or transcription is in progress. */
+  onBusyChange: (busy: boolean) => void;
+}
+
+const AUDIO_ACCEPT = 'audio/*,.mp3,.wav,.m4a,.webm';
+
+/**
+ * The Gemini engine: records with the microphone or takes an audio file, then transcribes it
+ * in parts with progress.
+ */
+const AudioFileTranscriber: React.FC<AudioFileTranscriberProps> = ({ language, audioRef, onAudioChange, onTranscript, onComplete, onTimeUpdate, onBusyChange }) => {
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'recording') {
+      // Discard the recording rather than load it into a component that is gone.
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  useEffect(() => {
+    onBusyChange(isRecording || isTranscribing);
+  }, [isRecording, isTranscribing, onBusyChange]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const startedAt = Date.now();
+    setRecordingSeconds(0);
+    const timer = setInterval(() => setRecordingSeconds((Date.now() - startedAt) / 1000), 500);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const loadAudio = (file: File | null) => {
+    setAudioFile(file);
+    setAudioUrl(file ? URL.createObjectURL(file) : null);
+    setProgress(null);
+    setError(null);
+    onAudioChange(file);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) loadAudio(file);
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError("Microphone access denied. Please enable it in your browser settings.");
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) parts.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      setIsRecording(false);
+      const type = recorder.mimeType || 'audio/webm';
+      const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+      loadAudio(new File(parts, `recording-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`, { type }));
+    };
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+  };
+
+  const handleTranscribe = async () => {
+    if (!audioFile) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsTranscribing(true);
+    setIsStopping(false);
+    setError(null);
+    onTranscript([]);
+
+    try {
+      const segments = await transcribeAudio(audioFile, {
+        language: language || undefined,
+        signal: controller.signal,
+        onProgress: (completed, total, soFar) => {
+          setProgress({ completed, total });
+          onTranscript(soFar);
+        },
+      });
+      onTranscript(segments);
+      if (segments.length > 0) onComplete(segments, audioFile, false);
+    } catch (err: any) {
+      if (err instanceof PartialTranscriptionError) {
+        // Keep what the earlier parts produced; only the failed part and the ones after it are missing.
+        onTranscript(err.segments);
+        onComplete(err.segments, audioFile, true);
+        const kept = err.failedPart === 2 ? 'part 1' : `parts 1 to ${err.failedPart - 1}`;
+        setError(`${err.message} The transcript of ${kept} was kept and saved.`);
+      } else {
+        setError(err.message);
+      }
+      console.error(err);
+    } finally {
+      abortRef.current = null;
+      setIsTranscribing(false);
+      setIsStopping(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    setIsStopping(true);
+  };
+
+  return (
+    <div className="w-full max-w-3xl flex flex-col items-center gap-4">
+      <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept={AUDIO_ACCEPT} className="hidden" />
+      <div className="flex items-center gap-3">
+        <button
+          onClick={isRecording ? stopRecording : startRecording}
+          disabled={!canRecord || isTranscribing}
+          title={canRecord ? undefined : 'Recording is not supported in this browser'}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-semibold transition-colors disabled:opacity-50 ${isRecording ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+        >
+          {isRecording ? <Square size={18} /> : <Mic size={18} />}
+          {isRecording ? `Stop (${formatDuration(recordingSeconds)})` : 'Record'}
+        </button>
+        <span className="text-sm text-slate-500">or</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecording || isTranscribing}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg font-semibold bg-slate-800 hover:bg-slate-700 transition-colors disabled:opacity-50"
+        >
+          <UploadCloud size={18} /> Upload audio
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">mp3, wav, m4a or webm. Long recordings are transcribed a few minutes at a time.</p>
+
+      {audioFile && audioUrl && (
+        <div className="w-full flex flex-col gap-3 p-3 rounded-lg bg-slate-800/60 border border-slate-700">
+          <div className="flex items-center gap-2 text-sm">
+            <FileAudio size={16} className="text-cyan-400 flex-shrink-0" />
+            <span className="flex-1 truncate" title={audioFile.name}>{audioFile.name}</span>
+            <span className="text-slate-500">{(audioFile.size / (1024 * 1024)).toFixed(1)} MB</span>
+            <button
+              onClick={() => loadAudio(null)}
+              disabled={isTranscribing}
+              className="p-1 rounded-md text-slate-400 hover:bg-slate-700 hover:text-slate-200 disabled:opacity-40"
+              aria-label="Remove audio"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+            className="w-full"
+          />
+          {isTranscribing ? (
+            <div className="flex items-center gap-3">
+              <div className="flex-1">
+                <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+                  <div
+                    className="h-full bg-cyan-500 transition-all"
+                    style={{ width: `${progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-slate-400">
+                  {isStopping
+                    ? 'Stopping after the current part...'
+                    : progress && progress.total > 1
+                      ? `Transcribing part ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...`
+                      : progress ? 'Transcribing...' : 'Preparing audio...'}
+                </p>
+              </div>
+              <button
+                onClick={handleStop}
+                disabled={isStopping}
+                className="px-3 py-1.5 text-sm rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40"
+              >
+                Stop
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleTranscribe}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors"
+            >
+              <Sparkles size={18} /> Transcribe
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+};
+
+export default AudioFileTranscriber;
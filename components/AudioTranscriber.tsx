@@ -1,26 +1,135 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, MicOff, Copy, Check, AlertTriangle } from 'lucide-react';
+import { Mic, MicOff, AlertTriangle } from 'lucide-react';
+import type { TranscriptSegment } from '../services/geminiService';
+import type { SpeakerNames } from '../services/transcriptExport';
+import {
+  getTranscripts,
+  getTranscript,
+  saveTranscript,
+  updateTranscript,
+  deleteTranscript,
+  createTranscriptAudioUrl,
+  NewTranscript,
+  TranscriptChanges,
+  TranscriptionEngine,
+  TranscriptSummary,
+} from '../services/transcriptService';
+import { useAuth } from '../hooks/useAuth';
+import AudioFileTranscriber from './AudioFileTranscriber';
+import TranscriptHistory from './TranscriptHistory';
+import TranscriptView from './TranscriptView';
+
+// Corrections and speaker names are saved once typing pauses.
+const SAVE_DELAY_MS = 800;
+const SEARCH_DELAY_MS = 300;
+
+type SaveStatus = 'saving' | 'saved' | 'failed';
+
+/** A transcript opened from the history, shown with its saved recording instead of the recorder. */
+interface OpenedTranscript {
+  engine: TranscriptionEngine;
+  createdAt: string;
+  audioUrl: string | null;
+}
+
+interface PendingSave {
+  userId: string;
+  transcriptId: string;
+  changes: TranscriptChanges;
+}
+
+const languages: { value: string; label: string }[] = [
+  { value: '', label: 'Detect automatically' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'nl-NL', label: 'Dutch' },
+  { value: 'fr-FR', label: 'French' },
+  { value: 'de-DE', label: 'German' },
+  { value: 'es-ES', label: 'Spanish' },
+  { value: 'it-IT', label: 'Italian' },
+  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { value: 'ja-JP', label: 'Japanese' },
+  { value: 'zh-CN', label: 'Chinese (Mandarin)' },
+  { value: 'hi-IN', label: 'Hindi' },
+];
+
+// FIX: Cast `window` to `any` to access the non-standard SpeechRecognition API properties.
+const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 
 const AudioTranscriber: React.FC = () => {
+  const { user } = useAuth();
+  // Live recognition is only offered where the browser has it (not in Firefox).
+  const [engine, setEngine] = useState<TranscriptionEngine>(SpeechRecognition ? 'browser' : 'gemini');
+  const [language, setLanguage] = useState('');
   const [isRecording, setIsRecording] = useState(false);
-  const [transcript, setTranscript] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [speakerNames, setSpeakerNames] = useState<SpeakerNames>({});
   const [interimTranscript, setInterimTranscript] = useState('');
+  // The audio file transcribed by the Gemini engine; live transcripts have no recording.
+  const [audioName, setAudioName] = useState<string | null>(null);
+  const [activeSegment, setActiveSegment] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [isCopied, setIsCopied] = useState(false);
   const [statusText, setStatusText] = useState('Click the mic to start recording');
   const [isSpeaking, setIsSpeaking] = useState(false);
+  // Set while the Gemini engine records or transcribes.
+  const [isFileBusy, setIsFileBusy] = useState(false);
+  // Remounts the Gemini engine, dropping its audio, when a new transcript is started.
+  const [fileTranscriberKey, setFileTranscriberKey] = useState(0);
+  const [transcripts, setTranscripts] = useState<TranscriptSummary[]>([]);
+  const [search, setSearch] = useState('');
+  // The saved copy of the transcript on screen, which edits are written to.
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [savedTitle, setSavedTitle] = useState<string | null>(null);
+  const [opened, setOpened] = useState<OpenedTranscript | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus | null>(null);
 
   // FIX: Use `any` type for the ref because SpeechRecognition is not a standard part of the TypeScript DOM library.
   const recognitionRef = useRef<any | null>(null);
+  // Live segments are timed from when recording started, and each ends when the next final result arrives.
+  const recordingStartRef = useRef(0);
+  const lastFinalRef = useRef(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Where playback of a clicked segment pauses.
+  const playUntilRef = useRef<number | null>(null);
+  const pendingSaveRef = useRef<PendingSave | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Bumped whenever the transcript on screen is replaced, so a save that finishes late doesn't attach to the new one.
+  const transcriptVersionRef = useRef(0);
+  // The latest edits, to catch changes made while the first save was in flight.
+  const latestRef = useRef({ segments, speakerNames });
+  const wasRecordingRef = useRef(false);
+
+  const isBusy = isRecording || isFileBusy;
+
+  useEffect(() => {
+    latestRef.current = { segments, speakerNames };
+  }, [segments, speakerNames]);
 
   useEffect(() => {
-    // FIX: Cast `window` to `any` to access the non-standard SpeechRecognition API properties.
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!user) return;
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await getTranscripts(user.id, search);
+        if (isCurrent) setTranscripts(results);
+      } catch (err: any) {
+        console.error("Error fetching transcripts:", err.message);
+      }
+    }, search ? SEARCH_DELAY_MS : 0);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [user, search]);
+
+  useEffect(() => {
+    if (engine !== 'browser') return;
     if (SpeechRecognition) {
       const recognition = new SpeechRecognition();
       recognition.continuous = true;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
+      // The browser engine can't detect the language; assume the user's own.
+      recognition.lang = language || navigator.language;
 
       recognition.onresult = (event) => {
         let final = '';
@@ -32,7 +141,12 @@ const AudioTranscriber: React.FC = () => {
             interim += event.results[i][0].transcript;
           }
         }
-        setTranscript(prev => prev + final);
+        if (final.trim()) {
+          const now = (Date.now() - recordingStartRef.current) / 1000;
+          const segment = { start: lastFinalRef.current, end: now, speaker: 'Speaker 1', text: final.trim() };
+          lastFinalRef.current = now;
+          setSegments(prev => [...prev, segment]);
+        }
         setInterimTranscript(interim);
       };
       
@@ -75,10 +189,219 @@ const AudioTranscriber: React.FC = () => {
     return () => {
         if (recognitionRef.current) {
             recognitionRef.current.stop();
+            recognitionRef.current = null;
         }
     }
+  }, [engine, language]);
+
+  const flushSave = async () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    try {
+      await updateTranscript(pending.userId, pending.transcriptId, pending.changes);
+      const updatedAt = new Date().toISOString();
+      setTranscripts(prev => prev.map(t => (t.id === pending.transcriptId ? { ...t, updated_at: updatedAt } : t)));
+      if (!pendingSaveRef.current) setSaveStatus(prev => (prev === 'saving' ? 'saved' : prev));
+    } catch (err: any) {
+      setSaveStatus('failed');
+      setError(`Could not save your changes: ${err.message}`);
+    }
+  };
+
+  // Unsaved corrections are written before the transcriber goes away.
+  useEffect(() => () => {
+    flushSave();
   }, []);
 
+  const scheduleSave = (transcriptId: string, changes: TranscriptChanges) => {
+    if (!user) return;
+    const pending = pendingSaveRef.current;
+    if (pending && pending.transcriptId !== transcriptId) flushSave();
+    pendingSaveRef.current = {
+      userId: user.id,
+      transcriptId,
+      changes: { ...(pendingSaveRef.current?.changes ?? {}), ...changes },
+    };
+    setSaveStatus('saving');
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushSave, SAVE_DELAY_MS);
+  };
+
+  const saveNewTranscript = async (transcript: NewTranscript) => {
+    if (!user) return;
+    const version = transcriptVersionRef.current;
+    setSaveStatus('saving');
+    try {
+      const saved = await saveTranscript(user.id, transcript);
+      setTranscripts(prev => [saved, ...prev]);
+      if (version !== transcriptVersionRef.current) return;
+      setSavedId(saved.id);
+      setSavedTitle(saved.title);
+      setSaveStatus('saved');
+
+      const latest = latestRef.current;
+      const changes: TranscriptChanges = {
+        ...(latest.segments !== transcript.segments ? { segments: latest.segments } : {}),
+        ...(latest.speakerNames !== transcript.speakerNames ? { speakerNames: latest.speakerNames } : {}),
+      };
+      if (changes.segments || changes.speakerNames) scheduleSave(saved.id, changes);
+    } catch (err: any) {
+      if (version !== transcriptVersionRef.current) return;
+      setSaveStatus('failed');
+      setError(`Could not save the transcript: ${err.message}`);
+    }
+  };
+
+  // A live transcript is saved when recording stops.
+  useEffect(() => {
+    if (wasRecordingRef.current && !isRecording && segments.length > 0) {
+      saveNewTranscript({
+        title: `Live transcript ${new Date().toLocaleString()}`,
+        engine: 'browser',
+        language: language || navigator.language,
+        segments,
+        speakerNames,
+      });
+    }
+    wasRecordingRef.current = isRecording;
+  }, [isRecording]);
+
+  // Detaches the screen from the saved transcript, writing any pending edits to it first.
+  const detachTranscript = () => {
+    flushSave();
+    transcriptVersionRef.current += 1;
+    setSavedId(null);
+    setSavedTitle(null);
+    setOpened(null);
+    setSaveStatus(null);
+  };
+
+  const resetTranscript = () => {
+    detachTranscript();
+    setError(null);
+    setSegments([]);
+    setSpeakerNames({});
+    setInterimTranscript('');
+    setAudioName(null);
+    setActiveSegment(null);
+  };
+
+  const handleEngineChange = (next: TranscriptionEngine) => {
+    setEngine(next);
+    resetTranscript();
+  };
+
+  const handleNewTranscript = () => {
+    if (isBusy) return;
+    resetTranscript();
+    setFileTranscriberKey(prev => prev + 1);
+  };
+
+  const handleOpenTranscript = async (summary: TranscriptSummary) => {
+    if (!user || isBusy || summary.id === savedId) return;
+    try {
+      const transcript = await getTranscript(user.id, summary.id);
+      const audioUrl = transcript.audio_path ? await createTranscriptAudioUrl(transcript.audio_path) : null;
+      resetTranscript();
+      setSegments(transcript.segments);
+      setSpeakerNames(transcript.speaker_names);
+      setSavedId(transcript.id);
+      setSavedTitle(transcript.title);
+      setOpened({ engine: transcript.engine, createdAt: transcript.created_at, audioUrl });
+    } catch (err: any) {
+      alert(`Could not open transcript: ${err.message}`);
+    }
+  };
+
+  const handleRenameTranscript = async (summary: TranscriptSummary, title: string) => {
+    if (!user) return;
+    try {
+      await updateTranscript(user.id, summary.id, { title });
+      const updatedAt = new Date().toISOString();
+      setTranscripts(prev => prev.map(t => (t.id === summary.id ? { ...t, title, updated_at: updatedAt } : t)));
+      if (summary.id === savedId) setSavedTitle(title);
+    } catch (err: any) {
+      alert(`Could not rename transcript: ${err.message}`);
+    }
+  };
+
+  const handleDeleteTranscript = async (summary: TranscriptSummary) => {
+    if (!user || isBusy || !window.confirm(`Delete "${summary.title}"? This cannot be undone.`)) return;
+    try {
+      if (pendingSaveRef.current?.transcriptId === summary.id) {
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        pendingSaveRef.current = null;
+      }
+      await deleteTranscript(user.id, summary);
+      setTranscripts(prev => prev.filter(t => t.id !== summary.id));
+      if (summary.id === savedId) handleNewTranscript();
+    } catch (err: any) {
+      alert(`Could not delete transcript: ${err.message}`);
+    }
+  };
+
+  const handleTranscript = (next: TranscriptSegment[]) => {
+    // A new transcription starts empty; names given to the old speakers don't carry over.
+    if (next.length === 0) {
+      detachTranscript();
+      setSpeakerNames({});
+    }
+    setSegments(next);
+  };
+
+  const handleTranscriptionComplete = (next: TranscriptSegment[], audio: File, isPartial: boolean) => {
+    const name = audio.name.replace(/\.[^.]+$/, '');
+    saveNewTranscript({
+      title: isPartial ? `${name} (partial)` : name,
+      engine: 'gemini',
+      language: language || undefined,
+      segments: next,
+      speakerNames: latestRef.current.speakerNames,
+      audio,
+    });
+  };
+
+  const handleAudioChange = (file: File | null) => {
+    detachTranscript();
+    setAudioName(file?.name ?? null);
+    setSegments([]);
+    setSpeakerNames({});
+    setActiveSegment(null);
+  };
+
+  const handleEditSegment = (index: number, text: string) => {
+    const next = segments.map((segment, i) => (i === index ? { ...segment, text } : segment));
+    setSegments(next);
+    if (savedId) scheduleSave(savedId, { segments: next });
+  };
+
+  const handleRenameSpeaker = (speaker: string, name: string) => {
+    const next = { ...speakerNames, [speaker]: name };
+    setSpeakerNames(next);
+    if (savedId) scheduleSave(savedId, { speakerNames: next });
+  };
+
+  const handlePlaySegment = (index: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    playUntilRef.current = segments[index].end;
+    audio.currentTime = segments[index].start;
+    audio.play();
+  };
+
+  const handleTimeUpdate = (time: number) => {
+    const audio = audioRef.current;
+    if (audio && playUntilRef.current !== null && time >= playUntilRef.current) {
+      audio.pause();
+      playUntilRef.current = null;
+    }
+    const index = segments.findIndex(segment => time >= segment.start && time < segment.end);
+    setActiveSegment(index === -1 ? null : index);
+  };
+
   const toggleRecording = () => {
     if (!recognitionRef.current) return;
     
@@ -86,56 +409,125 @@ const AudioTranscriber: React.FC = () => {
     if (isRecording) {
       recognitionRef.current.stop();
     } else {
-      setTranscript('');
-      setInterimTranscript('');
+      resetTranscript();
+      recordingStartRef.current = Date.now();
+      lastFinalRef.current = 0;
       recognitionRef.current.start();
       setIsRecording(true);
       setStatusText('Listening...');
     }
   };
   
-  const handleCopy = () => {
-    if (!transcript && !interimTranscript) return;
-    navigator.clipboard.writeText(transcript + interimTranscript);
-    setIsCopied(true);
-    setTimeout(() => setIsCopied(false), 2000);
-  };
-
   return (
-    <div className="flex flex-col h-full bg-slate-900">
-      <header className="p-4 border-b border-slate-800">
-        <h2 className="text-xl font-semibold">Audio Transcriber</h2>
-      </header>
-      <div className="flex-1 flex flex-col items-center justify-center p-4 md:p-6 gap-6">
-        <button
-          onClick={toggleRecording}
-          disabled={!recognitionRef.current}
-          className={`relative h-24 w-24 rounded-full flex items-center justify-center transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${isRecording ? 'bg-red-500/20' : 'bg-cyan-500/20'}`}
-        >
-          {isSpeaking && <div className={`absolute inset-0 rounded-full animate-ping bg-cyan-400`}></div>}
-          <div className="relative z-10 h-20 w-20 bg-slate-800 rounded-full flex items-center justify-center">
-            {isRecording ? <MicOff className="h-10 w-10 text-red-500" /> : <Mic className="h-10 w-10 text-cyan-400" />}
+    <div className="flex h-full bg-slate-900">
+      <TranscriptHistory
+        transcripts={transcripts}
+        activeId={savedId}
+        search={search}
+        onSearchChange={setSearch}
+        onSelect={handleOpenTranscript}
+        onNew={handleNewTranscript}
+        onRename={handleRenameTranscript}
+        onDelete={handleDeleteTranscript}
+        disabled={isBusy}
+      />
+      <div className="flex-1 flex flex-col min-w-0">
+        <header className="p-4 border-b border-slate-800 flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-xl font-semibold truncate">{savedTitle ?? 'Audio Transcriber'}</h2>
+          <div className="flex items-center gap-2 text-sm">
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              disabled={isBusy}
+              aria-label="Language"
+              className="bg-slate-800 border border-slate-700 rounded-lg p-1.5 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              {languages.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.value === '' && engine === 'browser' ? 'Browser language' : option.label}
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-1 bg-slate-800 rounded-lg p-1">
+              {([['browser', 'Live (browser)'], ['gemini', 'Gemini']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => handleEngineChange(value)}
+                  disabled={isBusy || (value === 'browser' && !SpeechRecognition)}
+                  title={value === 'browser' && !SpeechRecognition ? 'Speech recognition is not supported in this browser' : undefined}
+                  className={`px-3 py-1 rounded-md transition-colors disabled:opacity-50 ${engine === value ? 'bg-cyan-500 text-white' : 'hover:bg-slate-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
-        </button>
-        <p className="text-gray-400 h-5">
-            {statusText}
-        </p>
-
-        {error && (
-            <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-md p-3 flex items-center gap-2">
-                <AlertTriangle size={18} />
-                <span>{error}</span>
+        </header>
+        <div className="flex-1 flex flex-col items-center p-4 md:p-6 gap-6 overflow-y-auto">
+          {opened ? (
+            <div className="w-full max-w-3xl flex flex-col gap-3 p-3 rounded-lg bg-slate-800/60 border border-slate-700">
+              <p className="text-sm text-slate-400">
+                {opened.engine === 'gemini' ? 'Transcribed with Gemini' : 'Transcribed live'} on {new Date(opened.createdAt).toLocaleString()}
+              </p>
+              {opened.audioUrl ? (
+                <audio
+                  ref={audioRef}
+                  src={opened.audioUrl}
+                  controls
+                  onTimeUpdate={(e) => handleTimeUpdate(e.currentTarget.currentTime)}
+                  className="w-full"
+                />
+              ) : (
+                <p className="text-xs text-slate-500">There is no recording saved with this transcript.</p>
+              )}
             </div>
-        )}
-
-        <div className="w-full max-w-3xl h-64 bg-slate-950/50 rounded-lg p-4 border border-slate-800 overflow-y-auto relative">
-          <p className="whitespace-pre-wrap text-gray-300">
-            {transcript}
-            <span className="text-gray-500">{interimTranscript}</span>
-          </p>
-          <button onClick={handleCopy} className="absolute top-2 right-2 p-2 rounded-md bg-slate-700/50 hover:bg-slate-700 text-gray-400 hover:text-white disabled:opacity-50" disabled={!transcript && !interimTranscript}>
-            {isCopied ? <Check size={16} className="text-green-400" /> : <Copy size={16}/>}
-          </button>
+          ) : engine === 'gemini' ? (
+            <AudioFileTranscriber
+              key={fileTranscriberKey}
+              language={language}
+              audioRef={audioRef}
+              onAudioChange={handleAudioChange}
+              onTranscript={handleTranscript}
+              onComplete={handleTranscriptionComplete}
+              onTimeUpdate={handleTimeUpdate}
+              onBusyChange={setIsFileBusy}
+            />
+          ) : (
+            <>
+            <button
+              onClick={toggleRecording}
+              disabled={!SpeechRecognition}
+              className={`relative h-24 w-24 rounded-full flex items-center justify-center transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${isRecording ? 'bg-red-500/20' : 'bg-cyan-500/20'}`}
+            >
+              {isSpeaking && <div className={`absolute inset-0 rounded-full animate-ping bg-cyan-400`}></div>}
+              <div className="relative z-10 h-20 w-20 bg-slate-800 rounded-full flex items-center justify-center">
+                {isRecording ? <MicOff className="h-10 w-10 text-red-500" /> : <Mic className="h-10 w-10 text-cyan-400" />}
+              </div>
+            </button>
+            <p className="text-gray-400 h-5">
+                {statusText}
+            </p>
+            </>
+          )}
+
+          {error && (
+              <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-sm rounded-md p-3 flex items-center gap-2">
+                  <AlertTriangle size={18} />
+                  <span>{error}</span>
+              </div>
+          )}
+
+          <TranscriptView
+            segments={segments}
+            speakerNames={speakerNames}
+            onRenameSpeaker={handleRenameSpeaker}
+            title={savedTitle ?? audioName ?? `live-transcript-${new Date().toISOString().slice(0, 10)}`}
+            interimText={interimTranscript}
+            activeIndex={activeSegment}
+            onPlaySegment={(opened ? opened.audioUrl : engine === 'gemini' && audioName) ? handlePlaySegment : undefined}
+            status={saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved' : saveStatus === 'failed' ? 'Not saved' : undefined}
+            onEditSegment={isBusy ? undefined : handleEditSegment}
+          />
         </div>
       </div>
     </div>
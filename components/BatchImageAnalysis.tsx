@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, UploadCloud, FolderOpen, Play, Square, RotateCcw, X, Download, CheckCircle2, AlertCircle, Clock, ListChecks } from 'lucide-react';
+import { analyzeImage } from '../services/geminiService';
+import { toCsv } from '../services/csv';
+import PromptLibraryPicker from './PromptLibraryPicker';
+
+type BatchStatus = 'queued' | 'running' | 'done' | 'error';
+
+interface BatchItem {
+  id: number;
+  file: File;
+  previewUrl: string;
+  status: BatchStatus;
+  /** The prompt the item was last run with. */
+  prompt?: string;
+  answer?: string;
+  error?: string;
+}
+
+/** How many images are analyzed at the same time. */
+const CONCURRENCY = 3;
+
+// Files picked from a folder keep their path inside it, which tells apart equal names in subfolders.
+const displayName = (file: File) => file.webkitRelativePath || file.name;
+
+const statusIcons: Record<BatchStatus, React.ReactNode> = {
+  queued: <Clock size={16} className="text-slate-500" />,
+  running: <Loader2 size={16} className="animate-spin text-cyan-400" />,
+  done: <CheckCircle2 size={16} className="text-green-400" />,
+  error: <AlertCircle size={16} className="text-red-400" />,
+};
+
+/**
+ * Runs the same question over many images, a few at a time, and exports the answers as CSV.
+ */
+const BatchImageAnalysis: React.FC = () => {
+  const [prompt, setPrompt] = useState('Describe this image in one sentence.');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const nextIdRef = useRef(0);
+
+  const itemsRef = useRef<BatchItem[]>([]);
+  itemsRef.current = items;
+  useEffect(() => () => itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl)), []);
+
+  // React has no typed prop for folder pickers.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const updateItem = (id: number, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const runItem = (item: BatchItem) => {
+    updateItem(item.id, { status: 'running', prompt, answer: undefined, error: undefined });
+    analyzeImage(prompt, item.file)
+      .then(answer => updateItem(item.id, { status: 'done', answer }))
+      .catch((err: any) => updateItem(item.id, { status: 'error', error: err.message }));
+  };
+
+  // Starts queued items whenever a slot is free, and stops once nothing is left to do.
+  useEffect(() => {
+    if (!isRunning) return;
+    const running = items.filter(item => item.status === 'running').length;
+    const queued = items.filter(item => item.status === 'queued');
+    if (running === 0 && queued.length === 0) {
+      setIsRunning(false);
+      return;
+    }
+    for (const item of queued.slice(0, Math.max(0, CONCURRENCY - running))) {
+      runItem(item);
+    }
+  }, [items, isRunning, prompt]);
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    const added = files.map(file => ({
+      id: nextIdRef.current++,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'queued' as const,
+    }));
+    setItems(prev => [...prev, ...added]);
+  };
+
+  const handleRemove = (item: BatchItem) => {
+    URL.revokeObjectURL(item.previewUrl);
+    setItems(prev => prev.filter(other => other.id !== item.id));
+  };
+
+  const handleClear = () => {
+    items.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems([]);
+  };
+
+  // A running batch picks the item up again; otherwise only this one item runs.
+  const handleRetry = (item: BatchItem) => {
+    if (isRunning) {
+      updateItem(item.id, { status: 'queued', error: undefined });
+    } else {
+      runItem(item);
+    }
+  };
+
+  // Re-queues finished items, e.g. after changing the prompt.
+  const handleRunAgain = () => {
+    setItems(prev => prev.map(item => (item.status === 'running' ? item : { ...item, status: 'queued', answer: undefined, error: undefined })));
+    setIsRunning(true);
+  };
+
+  const handleExport = () => {
+    const rows = items.map(item => [displayName(item.file), item.prompt ?? '', item.status, item.answer ?? '', item.error ?? '']);
+    const content = toCsv(['file', 'prompt', 'status', 'answer', 'error'], rows);
+
+    // The byte order mark makes spreadsheet apps read the file as UTF-8.
+    const url = URL.createObjectURL(new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `image_analysis_${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const counts = items.reduce<Record<BatchStatus, number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { queued: 0, running: 0, done: 0, error: 0 },
+  );
+  const finished = counts.done + counts.error;
+  const hasRun = items.some(item => item.prompt !== undefined);
+
+  return (
+    <div className="flex-1 grid grid-cols-1 md:grid-cols-[20rem_1fr] gap-4 p-4 md:p-6 overflow-hidden">
+      <div className="flex flex-col gap-4 overflow-y-auto pr-2">
+        <input type="file" ref={fileInputRef} onChange={handleAddFiles} accept="image/*" multiple className="hidden" />
+        <input type="file" ref={folderInputRef} onChange={handleAddFiles} multiple className="hidden" />
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-slate-700 rounded-lg py-4 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors"
+          >
+            <UploadCloud size={28} />
+            <span className="mt-1 text-sm">Add images</span>
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="border-2 border-dashed border-slate-700 rounded-lg py-4 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors"
+          >
+            <FolderOpen size={28} />
+            <span className="mt-1 text-sm">Add a folder</span>
+          </button>
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="batch-prompt" className="block text-sm font-medium text-gray-400">Question for every image</label>
+            <PromptLibraryPicker feature="image-analyzer" prompt={prompt} onInsert={setPrompt} disabled={isRunning} />
+          </div>
+          <textarea
+            id="batch-prompt"
+            rows={3}
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            disabled={isRunning}
+            placeholder="e.g., Is there a visible error message? Answer yes or no."
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-60"
+          />
+        </div>
+        {isRunning ? (
+          <button
+            onClick={() => setIsRunning(false)}
+            className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors"
+          >
+            <Square className="h-5 w-5" /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => setIsRunning(true)}
+            disabled={counts.queued === 0 || !prompt.trim()}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
+          >
+            <Play className="h-5 w-5" /> Analyze {counts.queued} {counts.queued === 1 ? 'Image' : 'Images'}
+          </button>
+        )}
+        {!isRunning && counts.running > 0 && (
+          <p className="text-xs text-slate-500">Images already being analyzed will finish.</p>
+        )}
+        {items.length > 0 && (
+          <div className="text-sm text-slate-400">
+            <div className="h-2 rounded-full bg-slate-800 overflow-hidden mb-2">
+              <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(finished / items.length) * 100}%` }} />
+            </div>
+            {finished} of {items.length} done{counts.error > 0 && <span className="text-red-400"> · {counts.error} failed</span>}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button
+            onClick={handleExport}
+            disabled={!hasRun}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <Download size={14} /> Export CSV
+          </button>
+          <button
+            onClick={handleRunAgain}
+            disabled={isRunning || finished === 0 || !prompt.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <RotateCcw size={14} /> Run all again
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={isRunning || items.length === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+          >
+            <X size={14} /> Clear
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-slate-950/50 rounded-lg flex flex-col p-4 border border-slate-800 overflow-y-auto">
+        {items.length === 0 ? (
+          <div className="m-auto text-center text-gray-500">
+            <ListChecks size={64} className="mx-auto" />
+            <p className="mt-4">Add images to build a batch.</p>
+          </div>
+        ) : (
+          <ul className="flex flex-col divide-y divide-slate-800">
+            {items.map(item => (
+              <li key={item.id} className="flex gap-3 py-3">
+                <img src={item.previewUrl} alt={item.file.name} className="h-16 w-16 flex-shrink-0 object-cover rounded-md bg-slate-800" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    {statusIcons[item.status]}
+                    <span className="flex-1 truncate text-sm font-medium" title={displayName(item.file)}>{displayName(item.file)}</span>
+                    {item.status === 'error' && (
+                      <button
+                        onClick={() => handleRetry(item)}
+                        disabled={!prompt.trim()}
+                        className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                      >
+                        <RotateCcw size={12} /> Retry
+                      </button>
+                    )}
+                    {item.status !== 'running' && (
+                      <button
+                        onClick={() => handleRemove(item)}
+                        className="p-1 rounded-md text-slate-500 hover:bg-slate-800 hover:text-slate-200"
+                        aria-label={`Remove ${item.file.name}`}
+                      >
+                        <X size={14} />
+                      </button>
+                    )}
+                  </div>
+                  {item.answer && <p className="mt-1 text-sm text-slate-300 whitespace-pre-wrap break-words">{item.answer}</p>}
+                  {item.error && <p className="mt-1 text-sm text-red-400">{item.error}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchImageAnalysis;
@@ -0,0 +1,66 @@
+import React, { useState, useRef } from 'react';
+import { ChevronsLeftRight } from 'lucide-react';
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+}
+
+/**
+ * Shows two images on top of each other; dragging the handle reveals "before" on the left
+ * and "after" on the right.
+ */
+const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ beforeUrl, afterUrl }) => {
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(Math.min(100, Math.max(0, (clientX - rect.left) / rect.width * 100)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={(e) => {
+        isDraggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        moveTo(e.clientX);
+      }}
+      onPointerMove={(e) => isDraggingRef.current && moveTo(e.clientX)}
+      onPointerUp={() => { isDraggingRef.current = false; }}
+      onPointerCancel={() => { isDraggingRef.current = false; }}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowLeft') setPosition(prev => Math.max(0, prev - 5));
+        if (e.key === 'ArrowRight') setPosition(prev => Math.min(100, prev + 5));
+      }}
+      tabIndex={0}
+      role="slider"
+      aria-label="Before and after comparison"
+      aria-valuenow={Math.round(position)}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      className="relative inline-block max-w-full max-h-full select-none touch-none cursor-ew-resize rounded-md overflow-hidden focus:outline-none focus:ring-2 focus:ring-cyan-500"
+    >
+      <img src={afterUrl} alt="After" className="block max-w-full max-h-[70vh] object-contain" draggable={false} />
+      <img
+        src={beforeUrl}
+        alt="Before"
+        className="absolute inset-0 w-full h-full object-fill"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white/80" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 h-8 w-8 rounded-full bg-white text-slate-900 flex items-center justify-center shadow">
+          <ChevronsLeftRight size={16} />
+        </div>
+      </div>
+      <span className="absolute top-2 left-2 text-xs bg-slate-900/70 px-2 py-0.5 rounded">Before</span>
+      <span className="absolute top-2 right-2 text-xs bg-slate-900/70 px-2 py-0.5 rounded">After</span>
+    </div>
+  );
+};
+
+export default BeforeAfterSlider;
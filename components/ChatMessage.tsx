@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { User, Bot, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import MessageAttachments from './MessageAttachments';
+import ToolResultCard from './ToolResultCard';
+import type { ChatAttachment } from '../services/conversationService';
+import type { ToolDisplay } from '../services/chatTools';
+import type { RetrievedPassage } from '../services/knowledgeBase';
+
+export interface Message {
+  sender: 'user' | 'bot';
+  text: string;
+  attachments?: ChatAttachment[];
+  toolResults?: ToolDisplay[];
+  passages?: RetrievedPassage[];
+}
+
+interface ChatMessageProps {
+  message: Message;
+  /** 1-based position among the alternatives for this turn, and how many there are. */
+  branch?: { index: number; count: number };
+  disabled?: boolean;
+  onPreviousBranch?: () => void;
+  onNextBranch?: () => void;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+}
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, branch, disabled, onPreviousBranch, onNextBranch, onEdit, onRegenerate }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const isUser = message.sender === 'user';
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  return (
+    <div className={`group flex items-start gap-4 ${isUser ? 'justify-end' : ''}`}>
+      {!isUser && (
+        <div className="flex-shrink-0 h-10 w-10 rounded-full bg-cyan-500/20 flex items-center justify-center">
+          <Bot className="h-6 w-6 text-cyan-400" />
+        </div>
+      )}
+      <div className={`flex flex-col min-w-0 ${isUser ? 'items-end' : 'items-start'}`}>
+        <div className={`max-w-md lg:max-w-2xl px-4 py-3 rounded-2xl ${isUser ? 'bg-indigo-600 rounded-br-none' : 'bg-slate-800 rounded-bl-none'}`}>
+          {message.attachments && <MessageAttachments attachments={message.attachments} />}
+          {isEditing ? (
+            <div className="flex flex-col gap-2 min-w-[16rem]">
+              <textarea
+                autoFocus
+                rows={3}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                  if (e.key === 'Escape') setIsEditing(false);
+                }}
+                className="w-full bg-indigo-900/60 border border-indigo-400/40 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <div className="flex justify-end gap-2 text-sm">
+                <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md hover:bg-indigo-500/40">Cancel</button>
+                <button onClick={submitEdit} disabled={!draft.trim()} className="px-3 py-1 rounded-md bg-cyan-500 hover:bg-cyan-600 disabled:bg-slate-600">Send</button>
+              </div>
+            </div>
+          ) : (
+            message.text && <p className="text-sm md:text-base whitespace-pre-wrap">{message.text}</p>
+          )}
+          {message.passages && message.passages.length > 0 && (
+            <details className="mt-3 text-xs text-slate-400">
+              <summary className="cursor-pointer hover:text-slate-200">
+                Grounded in {message.passages.length} knowledge base passage{message.passages.length > 1 ? 's' : ''}
+              </summary>
+              <ol className="mt-2 space-y-2">
+                {message.passages.map((passage, i) => (
+                  <li key={i} className="p-2 rounded-md bg-slate-900/60 border border-slate-700">
+                    <p className="font-semibold text-slate-300">[{i + 1}] {passage.documentName} <span className="font-normal text-slate-500">({Math.round(passage.score * 100)}% match)</span></p>
+                    <p className="mt-1 whitespace-pre-wrap line-clamp-4">{passage.text}</p>
+                  </li>
+                ))}
+              </ol>
+            </details>
+          )}
+          {message.toolResults && message.toolResults.length > 0 && (
+            <div className="mt-3 space-y-3">
+              {message.toolResults.map((display, i) => <ToolResultCard key={i} display={display} />)}
+            </div>
+          )}
+        </div>
+        {(branch || onEdit || onRegenerate) && !isEditing && (
+          <div className="mt-1 flex items-center gap-1 text-xs text-slate-500">
+            {branch && branch.count > 1 && (
+              <>
+                <button onClick={onPreviousBranch} disabled={disabled || branch.index <= 1} className="p-1 hover:text-slate-200 disabled:opacity-40" aria-label="Previous version">
+                  <ChevronLeft size={14} />
+                </button>
+                <span>{branch.index}/{branch.count}</span>
+                <button onClick={onNextBranch} disabled={disabled || branch.index >= branch.count} className="p-1 hover:text-slate-200 disabled:opacity-40" aria-label="Next version">
+                  <ChevronRight size={14} />
+                </button>
+              </>
+            )}
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {onEdit && (
+                <button onClick={() => { setDraft(message.text); setIsEditing(true); }} disabled={disabled} className="p-1 hover:text-slate-200 disabled:opacity-40" aria-label="Edit message">
+                  <Pencil size={14} />
+                </button>
+              )}
+              {onRegenerate && (
+                <button onClick={onRegenerate} disabled={disabled} className="p-1 hover:text-slate-200 disabled:opacity-40" aria-label="Regenerate reply">
+                  <RefreshCw size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+      {isUser && (
+        <div className="flex-shrink-0 h-10 w-10 rounded-full bg-slate-700 flex items-center justify-center">
+          <User className="h-6 w-6 text-slate-300" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatMessage;
@@ -1,198 +1,814 @@
-
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Send, User, Bot, Loader2, Trash2 } from 'lucide-react';
-import { createChat, sendMessageToChat } from '../services/geminiService';
-import { supabase } from '../services/supabaseClient';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Send, Bot, Loader2, Square, Paperclip, X, BookOpen, History } from 'lucide-react';
+import {
+  createChat,
+  streamMessageToChat,
+  streamToolResponsesToChat,
+  generateConversationTitle,
+  summarizeConversation,
+  readInlineFiles,
+  ChatSession,
+} from '../services/geminiService';
+import { getChatToolDeclarations, runChatTool, ToolDisplay } from '../services/chatTools';
+import {
+  HISTORY_TOKEN_BUDGET,
+  ContextMessage,
+  estimateTokens,
+  estimateHistoryTokens,
+  formatHistory,
+  splitForSummary,
+  buildSystemInstruction,
+} from '../services/chatContext';
+import { seedKnowledgeBase, retrievePassages, buildGroundedMessage, RetrievedPassage } from '../services/knowledgeBase';
+import {
+  getConversations,
+  createConversation,
+  renameConversation,
+  deleteConversation,
+  getConversationMessages,
+  saveConversationMessages,
+  uploadChatAttachments,
+  signAttachmentUrls,
+  updateConversationSummary,
+  importConversation,
+  Conversation,
+  ChatAttachment,
+  StoredAttachment,
+  StoredChatMessage,
+  StoredToolResult,
+} from '../services/conversationService';
+import { buildConversationExport, formatConversationExport, parseConversationExport, ExportFormat } from '../services/conversationExport';
+import { NodeMap, toNodeMap, getPath, getSiblings, findLatestLeaf } from '../services/messageTree';
 import { useAuth } from '../hooks/useAuth';
-import type { Chat } from '@google/genai';
+import ConversationList from './ConversationList';
+import ChatMessage, { Message } from './ChatMessage';
+import KnowledgeBasePanel from './KnowledgeBasePanel';
+import ConversationExportMenu from './ConversationExportMenu';
+import type { FunctionCall, FunctionResponse } from '@google/genai';
+
+// A message in the conversation tree. Edited prompts and regenerated replies are siblings.
+interface ChatNode extends Message {
+  id: string;
+  parentId: string | null;
+  createdAt: string;
+  attachments: ChatAttachment[];
+}
+
+// Attachments are sent inline with the request, which caps the total size.
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const ATTACHMENT_ACCEPT = 'image/*,audio/*,application/pdf,text/plain,text/markdown,text/csv';
+
+// Upper bound on model -> tool -> model round trips for a single user turn.
+const MAX_TOOL_ROUNDS = 5;
+
+const GREETING: Message = { sender: 'bot', text: "Hello! This is EBURON. How can I help you today?" };
+
+const SYSTEM_INSTRUCTION = `You are EBURON, a world-class, multi-modal AI system.
+When a message starts with "Knowledge base passages", treat them as your reference material: ground your answer in them, cite the passages you used as [1], [2], etc., and say so when they do not cover the question.`;
+
+interface ContextState {
+  summary: string;
+  /** The last message the summary covers, on whichever branch it was made. */
+  throughId: string | null;
+}
+
+const EMPTY_CONTEXT: ContextState = { summary: '', throughId: null };
+
+/**
+ * Splits a path into the part the summary stands in for and the recent turns replayed verbatim.
+ * A summary made on another branch does not apply, so the whole path is replayed.
+ */
+const splitPathAtSummary = (path: ChatNode[], context: ContextState) => {
+  const summaryIndex = context.throughId ? path.findIndex(node => node.id === context.throughId) : -1;
+  return {
+    summary: summaryIndex >= 0 ? context.summary : '',
+    summarizedCount: summaryIndex + 1,
+    recent: path.slice(summaryIndex + 1),
+  };
+};
+
+// Starts a model session from the summary plus the recent turns, which are replayed with their attachments.
+const buildChat = async (summary: string, recent: ChatNode[]) =>
+  createChat(buildSystemInstruction(SYSTEM_INSTRUCTION, summary), formatHistory(await loadAttachmentContents(recent)), getChatToolDeclarations());
+
+const estimateContextTokens = (summary: string, recent: ContextMessage[]) =>
+  estimateTokens(buildSystemInstruction(SYSTEM_INSTRUCTION, summary)) + estimateHistoryTokens(recent);
+
+const formatTokenCount = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const toStoredAttachment = (attachment: ChatAttachment): StoredAttachment => ({
+  path: attachment.path ?? '',
+  name: attachment.name,
+  mime_type: attachment.mimeType,
+  size: attachment.size ?? 0,
+});
+
+// Swaps a tool result's object URL for the storage path of the file it shows.
+const toStoredToolResult = (display: ToolDisplay, path: string | undefined): StoredToolResult | null => {
+  switch (display.kind) {
+    case 'sources':
+      return display;
+    case 'image':
+      return path ? { kind: 'image', prompt: display.prompt, path } : null;
+    case 'audio':
+      return path ? { kind: 'audio', text: display.text, path } : null;
+  }
+};
 
-interface Message {
-  sender: 'user' | 'bot';
-  text: string;
+// Frees the in-memory copies of sent files and tool output once their conversation is closed.
+const releaseObjectUrls = (nodes: NodeMap<ChatNode>) => {
+  for (const node of Object.values(nodes)) {
+    const urls = [...node.attachments.map(a => a.url), ...(node.toolResults ?? []).map(display => ('url' in display ? display.url : ''))];
+    urls.filter(url => url.startsWith('blob:')).forEach(url => URL.revokeObjectURL(url));
+  }
+};
+
+// Re-reads stored attachments so an edited or regenerated turn can send them to the model again.
+const attachmentsToFiles = (attachments: ChatAttachment[]): Promise<File[]> =>
+  Promise.all(attachments.map(async attachment => {
+    const response = await fetch(attachment.url);
+    return new File([await response.blob()], attachment.name, { type: attachment.mimeType });
+  }));
+
+// A message whose attachments can't be read again is replayed with only their names.
+const loadAttachmentContents = (messages: ChatNode[]): Promise<ContextMessage[]> =>
+  Promise.all(messages.map(async message => {
+    if (message.attachments.length === 0) return message;
+    try {
+      return { ...message, files: await readInlineFiles(await attachmentsToFiles(message.attachments)) };
+    } catch (err: any) {
+      console.error("Failed to reload attachments:", err.message);
+      return message;
+    }
+  }));
+
+const isMissingTableError = (message: string) =>
+  message.includes("does not exist") || message.includes("Could not find the table");
+
+interface TurnRequest {
+  /** The user message to answer; added to the tree first when `isNewUserNode` is set. */
+  userNode: ChatNode;
+  isNewUserNode: boolean;
+  /** Files sent inline with the user message. */
+  files: File[];
+  /** Files to store with a new user message; the message's other attachments are already in storage. */
+  filesToUpload: File[];
 }
 
 const Chatbot: React.FC = () => {
-  const [chat, setChat] = useState<Chat | null>(null);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [chat, setChat] = useState<ChatSession | null>(null);
+  const [nodes, setNodes] = useState<NodeMap<ChatNode>>({});
+  const [leafId, setLeafId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Message | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const [input, setInput] = useState('');
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [context, setContext] = useState<ContextState>(EMPTY_CONTEXT);
+  const [contextTokens, setContextTokens] = useState(0);
+  const [isSummarizing, setIsSummarizing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Mirrors of state read by long-running async turns.
+  const nodesRef = useRef<NodeMap<ChatNode>>({});
+  const contextRef = useRef<ContextState>(EMPTY_CONTEXT);
+  // The message the `chat` session's history currently ends at; undefined when it must be rebuilt.
+  const chatLeafRef = useRef<string | null | undefined>(undefined);
+  // Counts session rebuilds, so one that finishes after a newer one has started is dropped.
+  const chatBuildRef = useRef(0);
   const { user } = useAuth();
 
+  const path = useMemo(() => getPath(nodes, leafId), [nodes, leafId]);
+
+  const updateNodes = (update: (prev: NodeMap<ChatNode>) => NodeMap<ChatNode>) => {
+    nodesRef.current = update(nodesRef.current);
+    setNodes(nodesRef.current);
+  };
+
+  const applyContext = (next: ContextState) => {
+    contextRef.current = next;
+    setContext(next);
+  };
+
+  /**
+   * Shows the branch ending at `id` and points the model session at it.
+   */
+  const selectLeaf = useCallback((id: string | null) => {
+    const { summary, recent } = splitPathAtSummary(getPath(nodesRef.current, id), contextRef.current);
+    setLeafId(id);
+    setContextTokens(estimateContextTokens(summary, recent));
+    chatLeafRef.current = undefined;
+    const build = ++chatBuildRef.current;
+    buildChat(summary, recent).then(next => {
+      if (build !== chatBuildRef.current) return;
+      setChat(next);
+      chatLeafRef.current = id;
+    });
+  }, []);
+
+  const startNewConversation = useCallback(() => {
+    setActiveConversationId(null);
+    setNotice(null);
+    releaseObjectUrls(nodesRef.current);
+    nodesRef.current = {};
+    setNodes({});
+    applyContext(EMPTY_CONTEXT);
+    selectLeaf(null);
+  }, [selectLeaf]);
+
+  const openConversation = useCallback(async (currentUserId: string, conversation: Conversation) => {
+    setIsLoading(true);
+    setActiveConversationId(conversation.id);
+    setNotice(null);
+    try {
+      const history = await getConversationMessages(currentUserId, conversation.id);
+      releaseObjectUrls(nodesRef.current);
+      nodesRef.current = toNodeMap(history);
+      setNodes(nodesRef.current);
+      applyContext({ summary: conversation.summary, throughId: conversation.summary_through_message_id });
+      // Reopen on the most recent branch.
+      selectLeaf(findLatestLeaf(nodesRef.current, null));
+    } catch (err: any) {
+      console.error("Error fetching chat history:", err.message);
+      ++chatBuildRef.current;
+      setChat(null);
+      chatLeafRef.current = undefined;
+      setNotice({ sender: 'bot', text: `I couldn't load this conversation due to an error: ${err.message}` });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectLeaf]);
+
   useEffect(() => {
     if (!user) return;
 
     const initChat = async (currentUserId: string) => {
       setIsLoading(true);
-      let knowledge = '';
-      try {
-        const response = await fetch('/knowledge_base.txt');
-        if (response.ok) {
-          knowledge = await response.text();
-        }
-      } catch (e) {
-        console.error("Could not load knowledge base.", e);
-      }
+      seedKnowledgeBase(currentUserId).catch(err => console.error("Could not seed knowledge base.", err));
 
-      const { data, error } = await supabase
-        .from('chat_history')
-        .select('sender, text')
-        .eq('user_id', currentUserId)
-        .order('created_at', { ascending: true });
-
-      // Format history for Gemini API
-      const formattedHistory = data?.map(msg => ({
-        role: msg.sender === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.text }],
-      })) || [];
-      
-      setChat(createChat(knowledge, formattedHistory));
-
-      if (error) {
-        console.error("Error fetching chat history:", error.message);
+      let userConversations: Conversation[];
+      try {
+        userConversations = await getConversations(currentUserId);
+      } catch (err: any) {
+        console.error("Error fetching conversations:", err.message);
+        startNewConversation();
         // Check for a specific "table not found" error from Supabase/Postgres
-        if (error.message.includes("does not exist") || error.message.includes("Could not find the table")) {
-            setMessages([{ 
-                sender: 'bot', 
-                text: "DATABASE SETUP INCOMPLETE:\n\nThe 'chat_history' table is missing from your Supabase database. Please execute the required SQL script provided in the documentation in your Supabase project's SQL Editor to create the necessary tables." 
-            }]);
+        if (isMissingTableError(err.message)) {
+            setNotice({
+                sender: 'bot',
+                text: "DATABASE SETUP INCOMPLETE:\n\nThe 'conversations' or 'chat_history' table is missing from your Supabase database. Please run the SQL scripts in supabase/migrations in your Supabase project's SQL Editor to create the necessary tables."
+            });
         } else {
-            setMessages([{ sender: 'bot', text: `Hello! I couldn't load previous messages due to an error: ${error.message}` }]);
+            setNotice({ sender: 'bot', text: `Hello! I couldn't load previous conversations due to an error: ${err.message}` });
         }
-      } else if (data && data.length > 0) {
-        setMessages(data as Message[]);
-      } else {
-        setMessages([{ sender: 'bot', text: "Hello! This is EBURON. How can I help you today?" }]);
+        setIsLoading(false);
+        return;
       }
+
+      setConversations(userConversations);
       setIsLoading(false);
+      if (userConversations.length > 0) {
+        await openConversation(currentUserId, userConversations[0]);
+      } else {
+        startNewConversation();
+      }
     };
 
     initChat(user.id);
-  }, [user]);
+  }, [user, openConversation, startNewConversation]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(scrollToBottom, [messages]);
+  useEffect(scrollToBottom, [path, notice]);
 
-  const handleSend = useCallback(async () => {
-    if (!input.trim() || !chat || isLoading || !user) return;
+  /**
+   * Folds older turns of a branch into the conversation summary once its verbatim history
+   * outgrows the budget, then restarts the model session from the summary plus the recent turns.
+   */
+  const compactContext = useCallback(async (currentUserId: string, conversationId: string, branchLeafId: string, reportedTokens: number) => {
+    const branch = getPath(nodesRef.current, branchLeafId);
+    const { summary, recent: unsummarized } = splitPathAtSummary(branch, contextRef.current);
+    if (Math.max(estimateHistoryTokens(unsummarized), reportedTokens) <= HISTORY_TOKEN_BUDGET) return;
 
-    const userMessage: Message = { sender: 'user', text: input };
-    setMessages((prev) => [...prev, userMessage]);
-    const currentInput = input;
-    setInput('');
-    setIsLoading(true);
+    const { older, recent } = splitForSummary(unsummarized);
+    if (older.length === 0) return;
 
+    setIsSummarizing(true);
     try {
-      const botResponseText = await sendMessageToChat(chat, currentInput);
-      const botMessage: Message = { sender: 'bot', text: botResponseText };
-      setMessages((prev) => [...prev, botMessage]);
-
-      const { error } = await supabase.from('chat_history').insert([
-        { user_id: user.id, sender: 'user', text: currentInput },
-        { user_id: user.id, sender: 'bot', text: botResponseText },
-      ]);
-      if (error) {
-          console.error("Failed to save message to Supabase:", error.message);
+      const newSummary = await summarizeConversation(summary, older);
+      const throughId = older[older.length - 1].id;
+      await updateConversationSummary(currentUserId, conversationId, newSummary, throughId);
+
+      applyContext({ summary: newSummary, throughId });
+      setConversations(prev => prev.map(c => (
+        c.id === conversationId ? { ...c, summary: newSummary, summary_through_message_id: throughId } : c
+      )));
+      if (chatLeafRef.current === branchLeafId) {
+        setContextTokens(estimateContextTokens(newSummary, recent));
+        const build = ++chatBuildRef.current;
+        const next = await buildChat(newSummary, recent);
+        // The old session stays usable meanwhile; a turn sent from it in the meantime takes precedence.
+        if (build === chatBuildRef.current && chatLeafRef.current === branchLeafId) setChat(next);
       }
+    } catch (err: any) {
+      console.error("Failed to summarize earlier context:", err.message);
+    } finally {
+      setIsSummarizing(false);
+    }
+  }, []);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    const totalSize = [...pendingFiles, ...selected].reduce((sum, file) => sum + file.size, 0);
+    if (totalSize > MAX_ATTACHMENT_BYTES) {
+      alert("Attachments are limited to 20 MB per message.");
+      return;
+    }
+    setPendingFiles(prev => [...prev, ...selected]);
+  };
 
-    } catch (error) {
-      const errorMessage: Message = { sender: 'bot', text: "Sorry, I couldn't get a response. Please try again." };
-      setMessages((prev) => [...prev, errorMessage]);
+  const removePendingFile = (index: number) => {
+    setPendingFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  /**
+   * Streams a reply to `userNode` as a new child of it, runs any tool calls, and saves the turn.
+   * Used for new messages, edited messages (a new sibling user node) and regenerated replies.
+   * @returns Whether a reply was produced.
+   */
+  const runTurn = useCallback(async ({ userNode, isNewUserNode, files, filesToUpload }: TurnRequest): Promise<boolean> => {
+    if (!user) return false;
+
+    const previousLeafId = leafId;
+    setNotice(null);
+    setIsLoading(true);
+    if (isNewUserNode) {
+      updateNodes(prev => ({ ...prev, [userNode.id]: userNode }));
+    }
+    setLeafId(userNode.id);
+
+    // Created before the session rebuild and knowledge base lookup so Stop works from the moment the prompt is sent.
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Reuse the live session when it already ends where this turn starts.
+    let turnChat = chat;
+    if (!turnChat || chatLeafRef.current !== userNode.parentId) {
+      const { summary, recent } = splitPathAtSummary(getPath(nodesRef.current, userNode.parentId), contextRef.current);
+      ++chatBuildRef.current;
+      turnChat = await buildChat(summary, recent);
+      setChat(turnChat);
+    }
+    chatLeafRef.current = undefined;
+
+    let passages: RetrievedPassage[] = [];
+    try {
+      passages = await retrievePassages(user.id, userNode.text);
+    } catch (err) {
+      console.error("Knowledge base lookup failed:", err);
+    }
+
+    const botNode: ChatNode = {
+      id: crypto.randomUUID(),
+      parentId: userNode.id,
+      createdAt: new Date().toISOString(),
+      sender: 'bot',
+      text: '',
+      attachments: [],
+      passages,
+    };
+    const toolResults: ToolDisplay[] = [];
+    const toolFiles: File[] = [];
+    // Which of `toolFiles` each tool result shows.
+    const toolFileIndexes = new Map<ToolDisplay, number>();
+    let reportedTokens = 0;
+
+    const showBotNode = () => {
+      // The first update swaps the spinner for a message bubble that keeps growing.
+      setIsStreaming(true);
+      updateNodes(prev => ({ ...prev, [botNode.id]: { ...botNode, toolResults: [...toolResults] } }));
+      setLeafId(botNode.id);
+    };
+
+    try {
+      let stream = streamMessageToChat(turnChat, buildGroundedMessage(userNode.text, passages), controller.signal, files);
+      // Set when the model still wants tools after the last round; their calls go unanswered.
+      let hasUnansweredCalls = false;
+      for (let round = 0; ; round++) {
+        const functionCalls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+          functionCalls.push(...chunk.functionCalls);
+          if (chunk.totalTokens) {
+            reportedTokens = chunk.totalTokens;
+            setContextTokens(chunk.totalTokens);
+          }
+          if (chunk.text) {
+            botNode.text += chunk.text;
+            showBotNode();
+          }
+        }
+        if (functionCalls.length === 0 || controller.signal.aborted) break;
+        if (round === MAX_TOOL_ROUNDS) {
+          hasUnansweredCalls = true;
+          break;
+        }
+
+        // Run the requested tools, show their results, then let the model continue with them.
+        const responses: FunctionResponse[] = [];
+        for (const call of functionCalls) {
+          try {
+            const result = await runChatTool(call.name ?? '', call.args, controller.signal);
+            toolResults.push(result.display);
+            if (result.file) toolFileIndexes.set(result.display, toolFiles.push(result.file) - 1);
+            responses.push({ id: call.id, name: call.name, response: result.response });
+          } catch (err: any) {
+            if (controller.signal.aborted) break;
+            console.error(`Tool "${call.name}" failed:`, err);
+            responses.push({ id: call.id, name: call.name, response: { error: err.message } });
+          }
+        }
+        if (controller.signal.aborted) break;
+        showBotNode();
+        stream = streamToolResponsesToChat(turnChat, responses, controller.signal);
+      }
+      // A stopped stream never lands in the session's history, and one that ends in unanswered
+      // function calls can't be continued, so either way it has to be rebuilt next time.
+      if (!controller.signal.aborted && !hasUnansweredCalls) {
+        chatLeafRef.current = botNode.id;
+      }
+    } catch (error: any) {
+      setNotice({ sender: 'bot', text: error.message });
     } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
-  }, [input, chat, isLoading, user]);
-  
-  const handleClearHistory = async () => {
-      if (!user) return;
 
-      const { error } = await supabase.from('chat_history').delete().eq('user_id', user.id);
-      if (error) {
-          console.error("Failed to clear history:", error.message);
-          alert("Could not clear history. Please try again.");
-          return;
+    if (!botNode.text && toolResults.length === 0) {
+      // Nothing to keep: drop the unsaved turn and go back to where the user was.
+      updateNodes(prev => {
+        const { [botNode.id]: _bot, ...rest } = prev;
+        if (!isNewUserNode) return rest;
+        const { [userNode.id]: _user, ...withoutUser } = rest;
+        return withoutUser;
+      });
+      setLeafId(previousLeafId);
+      return false;
+    }
+
+    try {
+      // The conversation row is only created once there is something to put in it.
+      let conversationId = activeConversationId;
+      const isFirstExchange = !conversationId;
+      if (!conversationId) {
+        const conversation = await createConversation(user.id);
+        conversationId = conversation.id;
+        setActiveConversationId(conversation.id);
+        setConversations(prev => [conversation, ...prev]);
       }
 
-      setMessages([{ sender: 'bot', text: "History cleared. How can I help you?" }]);
-      
-      let knowledge = '';
-      try {
-          const response = await fetch('/knowledge_base.txt');
-           if (response.ok) {
-              knowledge = await response.text();
+      const toSave: StoredChatMessage[] = [];
+      if (isNewUserNode) {
+        const uploaded = filesToUpload.length > 0
+          ? await uploadChatAttachments(user.id, conversationId, filesToUpload)
+          : [];
+        const reused = userNode.attachments.filter(a => a.path).map(toStoredAttachment);
+        toSave.push({ id: userNode.id, parentId: userNode.parentId, sender: 'user', text: userNode.text, attachments: [...reused, ...uploaded] });
+        if (uploaded.length > 0) {
+          // Remember where the files live so later branches from this message can reuse them, and
+          // show the stored copies so the in-memory ones can be freed.
+          const signedUrls = await signAttachmentUrls(uploaded.map(a => a.path));
+          const local = userNode.attachments.filter(a => !a.path);
+          const stored = local.map((a, i) => {
+            const path = uploaded[i]?.path;
+            return { ...a, path, url: (path && signedUrls.get(path)) || a.url };
+          });
+          updateNodes(prev => ({
+            ...prev,
+            [userNode.id]: {
+              ...prev[userNode.id],
+              attachments: [...userNode.attachments.filter(a => a.path), ...stored],
+            },
+          }));
+          local.forEach((a, i) => {
+            if (stored[i].url !== a.url) URL.revokeObjectURL(a.url);
+          });
+        }
+      }
+      const botAttachments = toolFiles.length > 0
+        ? await uploadChatAttachments(user.id, conversationId, toolFiles)
+        : [];
+      const storedToolResults = toolResults
+        .map(display => toStoredToolResult(display, botAttachments[toolFileIndexes.get(display) ?? -1]?.path))
+        .filter((result): result is StoredToolResult => result !== null);
+      toSave.push({ id: botNode.id, parentId: userNode.id, sender: 'bot', text: botNode.text, attachments: botAttachments, passages, toolResults: storedToolResults });
+
+      await saveConversationMessages(user.id, conversationId, toSave);
+
+      const now = new Date().toISOString();
+      setConversations(prev => {
+        const current = prev.find(c => c.id === conversationId);
+        return current ? [{ ...current, updated_at: now }, ...prev.filter(c => c.id !== conversationId)] : prev;
+      });
+
+      if (isFirstExchange) {
+        // The conversation keeps its default title if this fails.
+        try {
+          const title = await generateConversationTitle(userNode.text || files.map(f => f.name).join(', '), botNode.text);
+          if (title) {
+            await renameConversation(user.id, conversationId, title);
+            setConversations(prev => prev.map(c => (c.id === conversationId ? { ...c, title } : c)));
           }
-      } catch (e) {
-          console.error("Could not load knowledge base.", e);
+        } catch (err: any) {
+          console.error("Failed to title the conversation:", err.message);
+        }
       }
-      setChat(createChat(knowledge));
-  }
+
+      await compactContext(user.id, conversationId, botNode.id, reportedTokens);
+    } catch (err: any) {
+      console.error("Failed to save message to Supabase:", err.message);
+    }
+    return true;
+  }, [user, leafId, chat, activeConversationId, compactContext]);
+
+  const handleSend = useCallback(async () => {
+    if ((!input.trim() && pendingFiles.length === 0) || !chat || isLoading || !user) return;
+
+    const currentInput = input;
+    const currentFiles = pendingFiles;
+    const userNode: ChatNode = {
+      id: crypto.randomUUID(),
+      parentId: leafId,
+      createdAt: new Date().toISOString(),
+      sender: 'user',
+      text: currentInput,
+      attachments: currentFiles.map(file => ({ name: file.name, mimeType: file.type, url: URL.createObjectURL(file), size: file.size })),
+    };
+    setInput('');
+    setPendingFiles([]);
+
+    const answered = await runTurn({ userNode, isNewUserNode: true, files: currentFiles, filesToUpload: currentFiles });
+    if (!answered) {
+      // Hand the prompt back so it can be retried.
+      setInput(currentInput);
+      setPendingFiles(currentFiles);
+    }
+  }, [input, pendingFiles, chat, isLoading, user, leafId, runTurn]);
+
+  const handleEdit = async (original: ChatNode, text: string) => {
+    if (isLoading || !user) return;
+    try {
+      const files = await attachmentsToFiles(original.attachments);
+      const userNode: ChatNode = {
+        ...original,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        text,
+      };
+      await runTurn({ userNode, isNewUserNode: true, files, filesToUpload: [] });
+    } catch (err: any) {
+      setNotice({ sender: 'bot', text: `I couldn't resend this message: ${err.message}` });
+    }
+  };
+
+  const handleRegenerate = async (reply: ChatNode) => {
+    const userNode = reply.parentId ? nodesRef.current[reply.parentId] : undefined;
+    if (isLoading || !user || !userNode) return;
+    try {
+      const files = await attachmentsToFiles(userNode.attachments);
+      await runTurn({ userNode, isNewUserNode: false, files, filesToUpload: [] });
+    } catch (err: any) {
+      setNotice({ sender: 'bot', text: `I couldn't regenerate this reply: ${err.message}` });
+    }
+  };
+
+  const handleSwitchBranch = (node: ChatNode, offset: number) => {
+    const siblings = getSiblings(nodesRef.current, node);
+    const target = siblings[siblings.findIndex(s => s.id === node.id) + offset];
+    if (!target || isLoading) return;
+    selectLeaf(findLatestLeaf(nodesRef.current, target.id));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      releaseObjectUrls(nodesRef.current);
+    };
+  }, []);
+
+  const handleSelectConversation = (conversation: Conversation) => {
+    if (!user || isLoading || conversation.id === activeConversationId) return;
+    openConversation(user.id, conversation);
+  };
+
+  const handleNewConversation = () => {
+    if (isLoading) return;
+    startNewConversation();
+  };
+
+  const handleRenameConversation = async (conversation: Conversation, title: string) => {
+    if (!user) return;
+    try {
+      await renameConversation(user.id, conversation.id, title);
+      setConversations(prev => prev.map(c => (c.id === conversation.id ? { ...c, title } : c)));
+    } catch (err: any) {
+      alert(`Could not rename conversation: ${err.message}`);
+    }
+  };
+
+  const handleDeleteConversation = async (conversation: Conversation) => {
+    if (!user || isLoading || !window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteConversation(user.id, conversation.id);
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      if (conversation.id === activeConversationId) {
+        startNewConversation();
+      }
+    } catch (err: any) {
+      alert(`Could not delete conversation: ${err.message}`);
+    }
+  };
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  const handleExport = (format: ExportFormat) => {
+    if (path.length === 0) return;
+    const data = buildConversationExport(
+      activeConversation?.title ?? 'Conversation',
+      activeConversation?.created_at ?? path[0].createdAt,
+      path,
+    );
+    const { fileName, mimeType, content } = formatConversationExport(data, format);
+
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    if (!user || isLoading) return;
+    try {
+      const data = parseConversationExport(await file.text());
+      const conversation = await importConversation(user.id, data.title, data.messages);
+      setConversations(prev => [conversation, ...prev]);
+      // Opening the conversation rebuilds the model session from the imported history.
+      await openConversation(user.id, conversation);
+    } catch (err: any) {
+      alert(`Could not import "${file.name}": ${err.message}`);
+    }
+  };
+
+  const { summarizedCount } = splitPathAtSummary(path, context);
 
   return (
-    <div className="flex flex-col h-full bg-slate-900">
-        <header className="p-4 border-b border-slate-800 flex justify-between items-center">
-            <h2 className="text-xl font-semibold">AI Chatbot</h2>
-            <button 
-                onClick={handleClearHistory} 
-                className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors"
-                aria-label="Clear chat history"
-            >
-                <Trash2 size={18} />
-            </button>
+    <div className="flex h-full bg-slate-900">
+      <ConversationList
+        conversations={conversations}
+        activeId={activeConversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+        onImport={handleImport}
+      />
+      <div className="flex-1 flex flex-col min-w-0">
+        <header className="p-4 border-b border-slate-800 flex justify-between items-center gap-2">
+            <h2 className="text-xl font-semibold truncate">{activeConversation?.title ?? 'AI Chatbot'}</h2>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-slate-500" title="Tokens in the model context for this conversation">
+                {isSummarizing ? 'Summarizing earlier context...' : `~${formatTokenCount(contextTokens)} tokens`}
+              </span>
+              <ConversationExportMenu disabled={path.length === 0 || isLoading} onExport={handleExport} />
+              <button
+                  onClick={() => setShowKnowledgeBase(prev => !prev)}
+                  className={`p-2 rounded-md transition-colors ${showKnowledgeBase ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+                  aria-label="Toggle knowledge base"
+              >
+                  <BookOpen size={18} />
+              </button>
+            </div>
         </header>
         <div className="flex-1 overflow-y-auto p-4 md:p-6 space-y-6">
-        {messages.map((msg, index) => (
-          <div key={index} className={`flex items-start gap-4 ${msg.sender === 'user' ? 'justify-end' : ''}`}>
-            {msg.sender === 'bot' && (
-              <div className="flex-shrink-0 h-10 w-10 rounded-full bg-cyan-500/20 flex items-center justify-center">
-                <Bot className="h-6 w-6 text-cyan-400" />
+          {summarizedCount > 0 && (
+            <details className="rounded-lg border border-slate-800 bg-slate-950/50 p-3 text-sm text-slate-400">
+              <summary className="cursor-pointer flex items-center gap-2 hover:text-slate-200">
+                <History size={16} />
+                Earlier context summarized: the model sees the oldest {summarizedCount} messages only as a summary.
+              </summary>
+              <p className="mt-2 whitespace-pre-wrap text-slate-300">{context.summary}</p>
+            </details>
+          )}
+          {path.length === 0 && !notice && <ChatMessage message={GREETING} />}
+          {path.map(node => {
+            const siblings = getSiblings(nodes, node);
+            return (
+              <ChatMessage
+                key={node.id}
+                message={node}
+                branch={{ index: siblings.findIndex(s => s.id === node.id) + 1, count: siblings.length }}
+                disabled={isLoading}
+                onPreviousBranch={() => handleSwitchBranch(node, -1)}
+                onNextBranch={() => handleSwitchBranch(node, 1)}
+                onEdit={node.sender === 'user' ? (text) => handleEdit(node, text) : undefined}
+                onRegenerate={node.sender === 'bot' ? () => handleRegenerate(node) : undefined}
+              />
+            );
+          })}
+          {notice && <ChatMessage message={notice} />}
+           {isLoading && !isStreaming && (
+              <div className="flex items-start gap-4">
+                <div className="flex-shrink-0 h-10 w-10 rounded-full bg-cyan-500/20 flex items-center justify-center">
+                  <Bot className="h-6 w-6 text-cyan-400" />
+                </div>
+                <div className="max-w-md lg:max-w-2xl px-4 py-3 rounded-2xl bg-slate-800 rounded-bl-none flex items-center">
+                   <Loader2 className="h-5 w-5 animate-spin text-cyan-400" />
+                </div>
               </div>
-            )}
-            <div className={`max-w-md lg:max-w-2xl px-4 py-3 rounded-2xl ${msg.sender === 'user' ? 'bg-indigo-600 rounded-br-none' : 'bg-slate-800 rounded-bl-none'}`}>
-              <p className="text-sm md:text-base whitespace-pre-wrap">{msg.text}</p>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          {pendingFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {pendingFiles.map((file, index) => (
+                <span key={index} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-slate-800 border border-slate-700 text-sm">
+                  <span className="truncate max-w-[12rem]">{file.name}</span>
+                  <button onClick={() => removePendingFile(index)} className="p-1 text-slate-400 hover:text-red-400" aria-label={`Remove ${file.name}`}>
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
             </div>
-             {msg.sender === 'user' && (
-              <div className="flex-shrink-0 h-10 w-10 rounded-full bg-slate-700 flex items-center justify-center">
-                <User className="h-6 w-6 text-slate-300" />
-              </div>
+          )}
+          <div className="relative">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="absolute left-3 top-1/2 -translate-y-1/2 p-1.5 rounded-full text-slate-400 hover:text-cyan-400 transition-colors disabled:opacity-50"
+              disabled={isLoading || !chat}
+              aria-label="Attach files"
+            >
+              <Paperclip className="h-5 w-5" />
+            </button>
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Type your message..."
+              className="w-full bg-slate-800 border border-slate-700 rounded-full py-3 pl-12 pr-14 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              disabled={isLoading || !chat}
+            />
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="absolute right-3 top-1/2 -translate-y-1/2 bg-red-600 hover:bg-red-700 rounded-full h-9 w-9 flex items-center justify-center transition-colors"
+                aria-label="Stop generating"
+              >
+                <Square className="h-4 w-4 text-white" fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                className="absolute right-3 top-1/2 -translate-y-1/2 bg-cyan-500 hover:bg-cyan-600 rounded-full h-9 w-9 flex items-center justify-center transition-colors disabled:bg-slate-600"
+                disabled={isLoading || (!input.trim() && pendingFiles.length === 0) || !chat}
+              >
+                <Send className="h-5 w-5 text-white" />
+              </button>
             )}
           </div>
-        ))}
-         {isLoading && messages.length > 0 && (
-            <div className="flex items-start gap-4">
-              <div className="flex-shrink-0 h-10 w-10 rounded-full bg-cyan-500/20 flex items-center justify-center">
-                <Bot className="h-6 w-6 text-cyan-400" />
-              </div>
-              <div className="max-w-md lg:max-w-2xl px-4 py-3 rounded-2xl bg-slate-800 rounded-bl-none flex items-center">
-                 <Loader2 className="h-5 w-5 animate-spin text-cyan-400" />
-              </div>
-            </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
-
-      <div className="p-4 border-t border-slate-800">
-        <div className="relative">
-          <input
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Type your message..."
-            className="w-full bg-slate-800 border border-slate-700 rounded-full py-3 px-5 pr-14 focus:outline-none focus:ring-2 focus:ring-cyan-500"
-            disabled={isLoading || !chat}
-          />
-          <button
-            onClick={handleSend}
-            className="absolute right-3 top-1/2 -translate-y-1/2 bg-cyan-500 hover:bg-cyan-600 rounded-full h-9 w-9 flex items-center justify-center transition-colors disabled:bg-slate-600"
-            disabled={isLoading || !input.trim() || !chat}
-          >
-            <Send className="h-5 w-5 text-white" />
-          </button>
         </div>
       </div>
+      {showKnowledgeBase && user && (
+        <KnowledgeBasePanel userId={user.id} onClose={() => setShowKnowledgeBase(false)} />
+      )}
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { BrainCircuit, Loader2 } from 'lucide-react';
 import { solveComplexTask } from '../services/geminiService';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import PromptLibraryPicker from './PromptLibraryPicker';
 
 const ComplexTaskSolver: React.FC = () => {
   const [prompt, setPrompt] = useState('Write a short story about a robot who discovers music for the first time. The story should explore themes of consciousness and art. End on a poignant note.');
@@ -23,8 +24,8 @@ const ComplexTaskSolver: React.FC = () => {
     try {
       const response = await solveComplexTask(prompt);
       setResult(response);
-    } catch (err) {
-      setError("An error occurred while processing the task. Please try again.");
+    } catch (err: any) {
+      setError(err.message);
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -40,7 +41,10 @@ const ComplexTaskSolver: React.FC = () => {
         {/* Controls */}
         <div className="lg:w-1/3 flex flex-col gap-4 overflow-y-auto pr-2">
           <div>
-            <label htmlFor="prompt" className="block text-sm font-medium text-gray-400 mb-2">Complex Prompt</label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="prompt" className="block text-sm font-medium text-gray-400">Complex Prompt</label>
+              <PromptLibraryPicker feature="complex-solver" prompt={prompt} onInsert={setPrompt} />
+            </div>
             <textarea
               id="prompt"
               rows={10}
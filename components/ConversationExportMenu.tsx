@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { ExportFormat } from '../services/conversationExport';
+
+interface ConversationExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'html', label: 'HTML page (.html)' },
+];
+
+const ConversationExportMenu: React.FC<ConversationExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-colors disabled:opacity-40"
+        aria-label="Export conversation"
+      >
+        <Download size={18} />
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 mt-1 w-48 z-10 rounded-lg border border-slate-700 bg-slate-800 py-1 shadow-lg">
+          {FORMATS.map(({ format, label }) => (
+            <li key={format}>
+              <button
+                onClick={() => { setIsOpen(false); onExport(format); }}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-700"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ConversationExportMenu;
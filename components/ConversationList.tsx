@@ -0,0 +1,125 @@
+import React, { useState, useRef } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2, Check, X, Upload } from 'lucide-react';
+import type { Conversation } from '../services/conversationService';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onRename: (conversation: Conversation, title: string) => void;
+  onDelete: (conversation: Conversation) => void;
+  /** Called with a JSON export chosen by the user. */
+  onImport: (file: File) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeId, onSelect, onNew, onRename, onDelete, onImport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = (conversation: Conversation) => {
+    const title = draftTitle.trim();
+    if (title && title !== conversation.title) {
+      onRename(conversation, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 border-r border-slate-800 flex flex-col bg-slate-950/40">
+      <div className="p-3 border-b border-slate-800 flex gap-2">
+        <button
+          onClick={onNew}
+          className="flex-1 flex items-center justify-center gap-2 py-2 px-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold transition-colors"
+        >
+          <Plus size={16} /> New chat
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+          accept=".json,application/json"
+          className="hidden"
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="p-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+          aria-label="Import conversation"
+          title="Import a JSON export"
+        >
+          <Upload size={16} />
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <li className="text-sm text-slate-500 text-center py-4">No conversations yet.</li>
+        )}
+        {conversations.map(conversation => (
+          <li key={conversation.id}>
+            {editingId === conversation.id ? (
+              <div className="flex items-center gap-1 p-1">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(conversation);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button onClick={() => commitRename(conversation)} className="p-1 text-slate-400 hover:text-green-400" aria-label="Save title">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-slate-200" aria-label="Cancel rename">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <div
+                onClick={() => onSelect(conversation)}
+                className={`group flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-colors ${
+                  activeId === conversation.id ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-300 hover:bg-slate-800/50'
+                }`}
+              >
+                <MessageSquare size={14} className="flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={conversation.title}>{conversation.title}</p>
+                  <p className="text-xs text-slate-500">{new Date(conversation.updated_at).toLocaleString()}</p>
+                </div>
+                <div className="hidden group-hover:flex items-center gap-1">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                    className="p-1 text-slate-400 hover:text-slate-200"
+                    aria-label="Rename conversation"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(conversation); }}
+                    className="p-1 text-slate-400 hover:text-red-400"
+                    aria-label="Delete conversation"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationList;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { DetectedObject } from '../services/geminiService';
+import { colorForLabel } from '../services/labelColors';
+
+interface DetectionOverlayProps {
+  imageUrl: string;
+  objects: DetectedObject[];
+  /** Indexes of objects whose boxes are hidden. */
+  hidden: Set<number>;
+  /** The object highlighted here and in the list next to it. */
+  activeIndex: number | null;
+  onActiveChange: (index: number | null) => void;
+  onImageLoad?: (e: React.SyntheticEvent<HTMLImageElement>) => void;
+}
+
+/**
+ * Draws labelled bounding boxes over an image. Boxes are positioned in percentages, so they
+ * stay aligned at any display size.
+ */
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ imageUrl, objects, hidden, activeIndex, onActiveChange, onImageLoad }) => (
+  <div className="relative inline-block">
+    <img src={imageUrl} alt="Analyzed" onLoad={onImageLoad} className="block max-h-80 max-w-full object-contain rounded-md" />
+    {objects.map((object, index) => {
+      if (hidden.has(index)) return null;
+      const color = colorForLabel(object.label);
+      const isActive = activeIndex === index;
+      return (
+        <div
+          key={index}
+          onPointerEnter={() => onActiveChange(index)}
+          onPointerLeave={() => onActiveChange(null)}
+          className={`absolute border-2 rounded-sm transition-opacity ${activeIndex !== null && !isActive ? 'opacity-30' : 'opacity-100'}`}
+          style={{
+            left: `${object.box.x * 100}%`,
+            top: `${object.box.y * 100}%`,
+            width: `${object.box.width * 100}%`,
+            height: `${object.box.height * 100}%`,
+            borderColor: color,
+            backgroundColor: isActive ? `${color}33` : 'transparent',
+          }}
+        >
+          <span
+            className="absolute left-0 -top-5 px-1 text-xs font-semibold text-slate-900 whitespace-nowrap rounded-sm"
+            style={{ backgroundColor: color }}
+          >
+            {object.label} {Math.round(object.confidence * 100)}%
+          </span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default DetectionOverlay;
@@ -1,60 +1,253 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
-import { Loader2, AlertTriangle, Image, Download, Trash2 } from 'lucide-react';
-import { getUserImages, deleteImage } from '../services/supabaseService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Loader2, AlertTriangle, Image, Search, X, CheckSquare, Download, Trash2 } from 'lucide-react';
+import { getUserImages, deleteImage, deleteImages, UserImage, ImageSource, ImageSort } from '../services/supabaseService';
+import { buildGalleryArchive, fetchGalleryImage } from '../services/galleryArchive';
+import type { ImageFormatChoice } from './ImageFormatSelect';
 import { useAuth } from '../hooks/useAuth';
+import { useSignedUrls } from '../hooks/useSignedUrls';
+import { useSendImage, HandoffTarget } from '../hooks/useImageHandoff';
+import GalleryImageCard from './GalleryImageCard';
+import ImageDetail from './ImageDetail';
+
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 300;
 
-interface UserImage {
-    id: number;
-    prompt: string;
-    url: string;
-    createdAt: string;
-    storage_path: string;
+interface GalleryFilters {
+    search: string;
+    source: ImageSource | '';
+    from: string;
+    to: string;
+    sort: ImageSort;
 }
 
+const DEFAULT_FILTERS: GalleryFilters = { search: '', source: '', from: '', to: '', sort: 'newest' };
+
+const sortOptions: { value: ImageSort; label: string }[] = [
+    { value: 'newest', label: 'Newest first' },
+    { value: 'oldest', label: 'Oldest first' },
+    { value: 'prompt', label: 'Prompt (A–Z)' },
+];
+
+// Date inputs give local calendar days; the range covers the whole of both days.
+const startOfDay = (date: string) => date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+const endOfDay = (date: string) => date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+
 const Gallery: React.FC = () => {
     const [images, setImages] = useState<UserImage[]>([]);
+    const [total, setTotal] = useState(0);
+    const [filters, setFilters] = useState<GalleryFilters>(DEFAULT_FILTERS);
+    const [search, setSearch] = useState('');
     const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [detailImage, setDetailImage] = useState<UserImage | null>(null);
+    const [selectMode, setSelectMode] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
+    // While zipping, how many of the selected images have been downloaded.
+    const [zipProgress, setZipProgress] = useState<{ done: number; total: number } | null>(null);
+    const [isBulkDeleting, setIsBulkDeleting] = useState(false);
     const { user } = useAuth();
+    const { urls, requestUrl, dropUrl } = useSignedUrls();
+    const sendImage = useSendImage();
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    // Identifies the latest query, so pages from an outdated search are ignored.
+    const queryIdRef = useRef(0);
+    // The last image clicked in select mode, where a shift-click range starts.
+    const selectionAnchorRef = useRef<number | null>(null);
+
+    const hasMore = images.length < total;
+    const selectedImages = images.filter(image => selectedIds.has(image.id));
+    const isBulkBusy = zipProgress !== null || isBulkDeleting;
+    const hasFilters = filters.search.trim() !== '' || filters.source !== '' || filters.from !== '' || filters.to !== '';
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => setFilters(prev => ({ ...prev, search })), SEARCH_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [search]);
 
-    const fetchImages = useCallback(async () => {
+    const fetchPage = useCallback(async (offset: number) => {
         if (!user) return;
-        setIsLoading(true);
+        const queryId = offset === 0 ? ++queryIdRef.current : queryIdRef.current;
+        if (offset === 0) {
+            setIsLoading(true);
+        } else {
+            setIsLoadingMore(true);
+        }
         setError(null);
         try {
-            const userImages = await getUserImages(user.id);
-            setImages(userImages);
+            const result = await getUserImages(user.id, {
+                search: filters.search,
+                source: filters.source || undefined,
+                createdFrom: startOfDay(filters.from),
+                createdTo: endOfDay(filters.to),
+                sort: filters.sort,
+                offset,
+                limit: PAGE_SIZE,
+            });
+            if (queryId !== queryIdRef.current) return;
+            setImages(prev => offset === 0 ? result.images : [...prev, ...result.images]);
+            setTotal(result.total);
         } catch (err: any) {
-            setError(`Failed to load gallery: ${err.message}`);
+            if (queryId === queryIdRef.current) {
+                setError(`Failed to load gallery: ${err.message}`);
+            }
         } finally {
-            setIsLoading(false);
+            if (queryId === queryIdRef.current) {
+                setIsLoading(false);
+                setIsLoadingMore(false);
+            }
         }
-    }, [user]);
+    }, [user, filters]);
+
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: 0 });
+        setSelectedIds(new Set());
+        selectionAnchorRef.current = null;
+        fetchPage(0);
+    }, [fetchPage]);
 
+    // Loads the next page when the end of the grid scrolls into view.
     useEffect(() => {
-        fetchImages();
-    }, [fetchImages]);
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || isLoading || isLoadingMore || error) return;
+        const observer = new IntersectionObserver(([entry]) => {
+            if (entry.isIntersecting) {
+                fetchPage(images.length);
+            }
+        }, { root: scrollRef.current, rootMargin: '400px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, isLoading, isLoadingMore, error, images.length, fetchPage]);
+
+    const closeDetail = useCallback(() => setDetailImage(null), []);
+
+    const exitSelectMode = () => {
+        setSelectMode(false);
+        setSelectedIds(new Set());
+        selectionAnchorRef.current = null;
+    };
+
+    const handleActivate = (image: UserImage, shiftKey: boolean) => {
+        if (!selectMode) {
+            setDetailImage(image);
+            return;
+        }
+        const anchorIndex = images.findIndex(img => img.id === selectionAnchorRef.current);
+        const index = images.findIndex(img => img.id === image.id);
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (shiftKey && anchorIndex !== -1) {
+                // A shift-click selects everything between the anchor and this image.
+                const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+                images.slice(from, to + 1).forEach(img => next.add(img.id));
+            } else if (next.has(image.id)) {
+                next.delete(image.id);
+            } else {
+                next.add(image.id);
+            }
+            return next;
+        });
+        selectionAnchorRef.current = image.id;
+    };
+
+    const handleSelectAll = () => {
+        setSelectedIds(selectedImages.length === images.length ? new Set() : new Set(images.map(image => image.id)));
+    };
+
+    const removeImages = (removed: UserImage[]) => {
+        const removedIds = new Set(removed.map(image => image.id));
+        setImages(currentImages => currentImages.filter(img => !removedIds.has(img.id)));
+        setSelectedIds(prev => new Set([...prev].filter(id => !removedIds.has(id))));
+        setTotal(prev => prev - removed.length);
+        removed.forEach(image => {
+            dropUrl(image.storage_path);
+            if (image.thumbnail_path) dropUrl(image.thumbnail_path);
+        });
+    };
+
+    const handleBulkDelete = async () => {
+        const count = selectedImages.length;
+        if (!user || count === 0) return;
+        if (!window.confirm(`Delete ${count} ${count === 1 ? 'image' : 'images'}? This can't be undone.`)) return;
+
+        setIsBulkDeleting(true);
+        try {
+            await deleteImages(user.id, selectedImages.map(image => image.storage_path));
+            removeImages(selectedImages);
+        } catch (err: any) {
+            alert(err.message);
+        } finally {
+            setIsBulkDeleting(false);
+        }
+    };
+
+    const handleBulkDownload = async () => {
+        if (selectedImages.length === 0) return;
+        setZipProgress({ done: 0, total: selectedImages.length });
+        try {
+            const archive = await buildGalleryArchive(selectedImages, (done, total) => setZipProgress({ done, total }));
+            const url = URL.createObjectURL(archive);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `gallery-${new Date().toISOString().slice(0, 10)}.zip`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            alert(`Failed to create the zip file: ${err.message}`);
+        } finally {
+            setZipProgress(null);
+        }
+    };
+
+    const updateFilter = <K extends keyof GalleryFilters>(key: K, value: GalleryFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setFilters(prev => ({ ...DEFAULT_FILTERS, sort: prev.sort }));
+    };
 
     const handleDelete = async (image: UserImage) => {
         if (!user || !window.confirm("Are you sure you want to delete this image?")) return;
 
         try {
             await deleteImage(user.id, image.storage_path);
-            setImages(currentImages => currentImages.filter(img => img.id !== image.id));
+            removeImages([image]);
         } catch (err: any) {
             alert(`Failed to delete image: ${err.message}`);
         }
     };
 
-    const handleDownload = (url: string, prompt: string) => {
-        const link = document.createElement('a');
-        link.href = url;
-        const fileName = prompt.substring(0, 30).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'gemini_image';
-        link.download = `${fileName}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const handleSend = async (image: UserImage, target: HandoffTarget) => {
+        try {
+            const file = await fetchGalleryImage(image);
+            // An edited image's prompt is its chain of edit instructions, not a description of it.
+            const prompt = image.source === 'generated' ? image.prompt : undefined;
+            sendImage(target, { image: file, prompt, galleryId: image.id });
+        } catch (err: any) {
+            alert(`Failed to open image: ${err.message}`);
+        }
+    };
+
+    // Downloads go through a blob, since browsers ignore the file name on cross-origin links.
+    const handleDownload = async (image: UserImage, format: ImageFormatChoice = 'original') => {
+        try {
+            const file = await fetchGalleryImage(image, format === 'original' ? undefined : format);
+            const url = URL.createObjectURL(file);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = file.name;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err: any) {
+            alert(`Failed to download image: ${err.message}`);
+        }
     }
 
     const renderContent = () => {
@@ -67,12 +260,22 @@ const Gallery: React.FC = () => {
             );
         }
 
-        if (error) {
+        if (error && images.length === 0) {
             return (
                 <div className="flex flex-col items-center justify-center h-full">
                     <AlertTriangle className="h-12 w-12 text-red-400" />
                     <p className="mt-4 text-red-400">{error}</p>
-                    <button onClick={fetchImages} className="mt-4 px-4 py-2 bg-indigo-600 rounded-md hover:bg-indigo-700">Try Again</button>
+                    <button onClick={() => fetchPage(0)} className="mt-4 px-4 py-2 bg-indigo-600 rounded-md hover:bg-indigo-700">Try Again</button>
+                </div>
+            );
+        }
+
+        if (images.length === 0 && hasFilters) {
+            return (
+                <div className="flex flex-col items-center justify-center h-full text-center">
+                    <Search className="h-16 w-16 text-gray-600" />
+                    <p className="mt-4 text-gray-400">No images match your search.</p>
+                    <button onClick={clearFilters} className="mt-2 text-sm text-cyan-400 hover:underline">Clear filters</button>
                 </div>
             );
         }
@@ -88,38 +291,155 @@ const Gallery: React.FC = () => {
         }
 
         return (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                {images.map(image => (
-                    <div key={image.id} className="group relative aspect-square bg-slate-800 rounded-lg overflow-hidden border border-slate-700">
-                        <img src={image.url} alt={image.prompt} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" loading="lazy" />
-                        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                            <div className="absolute bottom-0 left-0 p-3 text-white w-full">
-                                <p className="text-sm font-semibold truncate" title={image.prompt}>{image.prompt}</p>
-                                <p className="text-xs text-slate-300">{new Date(image.createdAt).toLocaleDateString()}</p>
-                            </div>
-                             <div className="absolute top-2 right-2 flex flex-col gap-2">
-                                <button onClick={() => handleDownload(image.url, image.prompt)} className="p-2 bg-slate-700/50 rounded-full hover:bg-slate-600 text-white" aria-label="Download image">
-                                    <Download size={16} />
-                                </button>
-                                <button onClick={() => handleDelete(image)} className="p-2 bg-red-700/50 rounded-full hover:bg-red-600 text-white" aria-label="Delete image">
-                                    <Trash2 size={16} />
-                                </button>
-                            </div>
-                        </div>
-                    </div>
-                ))}
-            </div>
+            <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {images.map(image => (
+                        <GalleryImageCard
+                            key={image.id}
+                            image={image}
+                            signedUrl={urls.get(image.thumbnail_path ?? image.storage_path)}
+                            selectMode={selectMode}
+                            selected={selectedIds.has(image.id)}
+                            onRequestUrl={requestUrl}
+                            onActivate={handleActivate}
+                            onDownload={handleDownload}
+                            onSend={handleSend}
+                            onDelete={handleDelete}
+                        />
+                    ))}
+                </div>
+                <div ref={sentinelRef} className="flex justify-center py-6">
+                    {isLoadingMore && <Loader2 className="h-6 w-6 animate-spin text-cyan-400" />}
+                    {error && !isLoadingMore && (
+                        <button onClick={() => fetchPage(images.length)} className="text-sm text-red-400 hover:underline">
+                            {error} Try again
+                        </button>
+                    )}
+                </div>
+            </>
         );
     }
 
     return (
         <div className="flex flex-col h-full bg-slate-900">
-            <header className="p-4 border-b border-slate-800">
-                <h2 className="text-xl font-semibold">My Gallery</h2>
+            <header className="p-4 border-b border-slate-800 flex flex-col gap-3">
+                <div className="flex items-baseline justify-between">
+                    <h2 className="text-xl font-semibold">My Gallery</h2>
+                    <div className="flex items-center gap-3">
+                        {!isLoading && <span className="text-sm text-slate-500">{total} {total === 1 ? 'image' : 'images'}</span>}
+                        {images.length > 0 && (
+                            <button
+                                onClick={selectMode ? exitSelectMode : () => setSelectMode(true)}
+                                disabled={isBulkBusy}
+                                className={`flex items-center gap-1 text-sm px-3 py-1.5 rounded-md transition-colors ${
+                                    selectMode ? 'bg-cyan-500 text-white' : 'bg-slate-800 hover:bg-slate-700'
+                                }`}
+                            >
+                                <CheckSquare size={16} /> {selectMode ? 'Done' : 'Select'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+                {selectMode && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm bg-slate-800/60 rounded-lg px-3 py-2">
+                        <span className="text-slate-300">{selectedImages.length} selected</span>
+                        <button onClick={handleSelectAll} disabled={isBulkBusy} className="text-cyan-400 hover:underline disabled:opacity-40">
+                            {images.length > 0 && selectedImages.length === images.length ? 'Select none' : hasMore ? `Select all ${images.length} loaded` : 'Select all'}
+                        </button>
+                        <span className="text-slate-500 hidden md:inline">Shift-click to select a range.</span>
+                        <div className="ml-auto flex items-center gap-2">
+                            <button
+                                onClick={handleBulkDownload}
+                                disabled={selectedImages.length === 0 || isBulkBusy}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40"
+                            >
+                                {zipProgress ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                                {zipProgress ? `Zipping ${zipProgress.done}/${zipProgress.total}` : 'Download zip'}
+                            </button>
+                            <button
+                                onClick={handleBulkDelete}
+                                disabled={selectedImages.length === 0 || isBulkBusy}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-md bg-red-700/80 hover:bg-red-600 disabled:opacity-40"
+                            >
+                                {isBulkDeleting ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+                                Delete
+                            </button>
+                        </div>
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <div className="relative flex-1 min-w-[12rem]">
+                        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                        <input
+                            type="search"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder='Search prompts, e.g. "red car" -night'
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg py-2 pl-9 pr-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                            aria-label="Search prompts"
+                        />
+                    </div>
+                    <select
+                        value={filters.source}
+                        onChange={(e) => updateFilter('source', e.target.value as ImageSource | '')}
+                        className="bg-slate-800 border border-slate-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="Filter by source"
+                    >
+                        <option value="">All images</option>
+                        <option value="generated">Generated</option>
+                        <option value="edited">Edited</option>
+                    </select>
+                    <label className="flex items-center gap-1 text-slate-400">
+                        From
+                        <input
+                            type="date"
+                            value={filters.from}
+                            max={filters.to || undefined}
+                            onChange={(e) => updateFilter('from', e.target.value)}
+                            className="bg-slate-800 border border-slate-700 rounded-lg p-2 text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-1 text-slate-400">
+                        To
+                        <input
+                            type="date"
+                            value={filters.to}
+                            min={filters.from || undefined}
+                            onChange={(e) => updateFilter('to', e.target.value)}
+                            className="bg-slate-800 border border-slate-700 rounded-lg p-2 text-slate-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        />
+                    </label>
+                    <select
+                        value={filters.sort}
+                        onChange={(e) => updateFilter('sort', e.target.value as ImageSort)}
+                        className="bg-slate-800 border border-slate-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        aria-label="Sort images"
+                    >
+                        {sortOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    {hasFilters && (
+                        <button onClick={clearFilters} className="p-2 rounded-lg text-slate-400 hover:bg-slate-800 hover:text-slate-200" aria-label="Clear filters">
+                            <X size={16} />
+                        </button>
+                    )}
+                </div>
             </header>
-            <div className="flex-1 overflow-y-auto p-4 md:p-6">
+            <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 md:p-6">
                 {renderContent()}
             </div>
+            {detailImage && (
+                <ImageDetail
+                    image={detailImage}
+                    urls={urls}
+                    onRequestUrl={requestUrl}
+                    onSelect={setDetailImage}
+                    onSend={handleSend}
+                    onDownload={handleDownload}
+                    onClose={closeDetail}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, Download, Trash2, PencilLine, CheckCircle2, Circle, Edit, Sparkles, ImagePlus } from 'lucide-react';
+import type { UserImage, SignedImageUrl } from '../services/supabaseService';
+import { URL_REFRESH_MARGIN_MS } from '../hooks/useSignedUrls';
+import type { HandoffTarget } from '../hooks/useImageHandoff';
+
+interface GalleryImageCardProps {
+    image: UserImage;
+    /** For the thumbnail, or for the original if the image has none. */
+    signedUrl?: SignedImageUrl;
+    /** In select mode, clicking toggles selection instead of opening the image. */
+    selectMode: boolean;
+    selected: boolean;
+    onRequestUrl: (storagePath: string) => void;
+    /** Called on click or Enter; `shiftKey` extends a selection. */
+    onActivate: (image: UserImage, shiftKey: boolean) => void;
+    onDownload: (image: UserImage) => void;
+    /** Opens the image in another feature. */
+    onSend: (image: UserImage, target: HandoffTarget) => void;
+    onDelete: (image: UserImage) => void;
+}
+
+/**
+ * One gallery tile. It only asks for a signed URL while it is on screen, and asks again
+ * shortly before that URL expires or if the image fails to load with it.
+ */
+const GalleryImageCard: React.FC<GalleryImageCardProps> = ({ image, signedUrl, selectMode, selected, onRequestUrl, onActivate, onDownload, onSend, onDelete }) => {
+    const [isVisible, setIsVisible] = useState(false);
+    const cardRef = useRef<HTMLDivElement>(null);
+    // The URL that last failed to load, so a broken image is only retried once per URL.
+    const failedUrlRef = useRef<string | null>(null);
+    const previewPath = image.thumbnail_path ?? image.storage_path;
+
+    useEffect(() => {
+        const card = cardRef.current;
+        if (!card) return;
+        const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), { rootMargin: '200px' });
+        observer.observe(card);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (!isVisible) return;
+        const refreshIn = signedUrl ? signedUrl.expiresAt - URL_REFRESH_MARGIN_MS - Date.now() : 0;
+        if (refreshIn <= 0) {
+            onRequestUrl(previewPath);
+            return;
+        }
+        const timer = window.setTimeout(() => onRequestUrl(previewPath), refreshIn);
+        return () => window.clearTimeout(timer);
+    }, [isVisible, signedUrl, previewPath, onRequestUrl]);
+
+    const handleImageError = () => {
+        if (!signedUrl || failedUrlRef.current === signedUrl.url) return;
+        failedUrlRef.current = signedUrl.url;
+        onRequestUrl(previewPath);
+    };
+
+    return (
+        <div
+            ref={cardRef}
+            onClick={(e) => onActivate(image, e.shiftKey)}
+            onKeyDown={(e) => e.key === 'Enter' && onActivate(image, e.shiftKey)}
+            tabIndex={0}
+            role={selectMode ? 'checkbox' : 'button'}
+            aria-checked={selectMode ? selected : undefined}
+            aria-label={selectMode ? `Select ${image.prompt}` : `Show details for ${image.prompt}`}
+            className={`group relative aspect-square bg-slate-800 rounded-lg overflow-hidden border cursor-pointer select-none focus:outline-none focus:ring-2 focus:ring-cyan-500 ${
+                selected ? 'border-cyan-400 ring-2 ring-cyan-400' : 'border-slate-700'
+            }`}
+        >
+            {signedUrl ? (
+                <img src={signedUrl.url} alt={image.prompt} onError={handleImageError} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />
+            ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-slate-600" />
+                </div>
+            )}
+            {image.source === 'edited' && (
+                <span className="absolute top-2 left-2 flex items-center gap-1 text-xs bg-slate-900/70 text-slate-200 px-2 py-0.5 rounded">
+                    <PencilLine size={12} /> Edited
+                </span>
+            )}
+            {selectMode && (
+                <span className={`absolute top-2 right-2 z-10 rounded-full ${selected ? 'text-cyan-400 bg-slate-900' : 'text-white/80 bg-slate-900/40'}`}>
+                    {selected ? <CheckCircle2 size={22} /> : <Circle size={22} />}
+                </span>
+            )}
+            <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                <div className="absolute bottom-0 left-0 p-3 text-white w-full">
+                    <p className="text-sm font-semibold truncate" title={image.prompt}>{image.prompt}</p>
+                    <p className="text-xs text-slate-300">{new Date(image.created_at).toLocaleDateString()}</p>
+                    {!selectMode && (
+                        <div className="flex gap-2 mt-2" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+                            <button onClick={() => onSend(image, 'image-editor')} className="p-1.5 bg-slate-700/50 rounded-md hover:bg-slate-600" aria-label="Edit image" title="Edit">
+                                <Edit size={14} />
+                            </button>
+                            <button onClick={() => onSend(image, 'image-analyzer')} className="p-1.5 bg-slate-700/50 rounded-md hover:bg-slate-600" aria-label="Analyze image" title="Analyze">
+                                <Sparkles size={14} />
+                            </button>
+                            <button onClick={() => onSend(image, 'image-generator')} className="p-1.5 bg-slate-700/50 rounded-md hover:bg-slate-600" aria-label="Use as reference" title="Use as reference">
+                                <ImagePlus size={14} />
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {!selectMode && (
+                    <div className="absolute top-2 right-2 flex flex-col gap-2" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+                        <button onClick={() => onDownload(image)} className="p-2 bg-slate-700/50 rounded-full hover:bg-slate-600 text-white" aria-label="Download image">
+                            <Download size={16} />
+                        </button>
+                        <button onClick={() => onDelete(image)} className="p-2 bg-red-700/50 rounded-full hover:bg-red-600 text-white" aria-label="Delete image">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default GalleryImageCard;
@@ -53,8 +53,8 @@ const GroundingSearch: React.FC = () => {
       const { text, chunks } = await performGroundedSearch(query, searchTool, location || undefined);
       setResult(text);
       setSources(chunks);
-    } catch (err) {
-      setError("Failed to perform search. Please try again.");
+    } catch (err: any) {
+      setError(err.message);
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -1,119 +1,295 @@
-
 import React, { useState, useCallback, useRef } from 'react';
-import { Sparkles, Loader2, UploadCloud } from 'lucide-react';
-import { analyzeImage } from '../services/geminiService';
+import { Sparkles, Loader2, UploadCloud, ScanSearch, FileJson, Eye, EyeOff } from 'lucide-react';
+import { analyzeImage, detectObjects, DetectedObject } from '../services/geminiService';
+import { formatDetectionExport, DetectionExportFormat } from '../services/detectionExport';
+import { colorForLabel } from '../services/labelColors';
 import ReactMarkdown from 'react-markdown';
+import { useIncomingImage } from '../hooks/useImageHandoff';
+import DetectionOverlay from './DetectionOverlay';
+import ImageComparison from './ImageComparison';
+import BatchImageAnalysis from './BatchImageAnalysis';
+import PromptLibraryPicker from './PromptLibraryPicker';
+
+type AnalysisMode = 'describe' | 'detect' | 'compare' | 'batch';
+
+const modes: [AnalysisMode, string][] = [
+  ['describe', 'Describe'],
+  ['detect', 'Detect objects'],
+  ['compare', 'Compare'],
+  ['batch', 'Batch'],
+];
 
 const ImageAnalyzer: React.FC = () => {
+  const [mode, setMode] = useState<AnalysisMode>('describe');
   const [prompt, setPrompt] = useState('What is in this image?');
+  const [focus, setFocus] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [analysisResult, setAnalysisResult] = useState<string | null>(null);
+  const [objects, setObjects] = useState<DetectedObject[] | null>(null);
+  const [hiddenObjects, setHiddenObjects] = useState<Set<number>>(() => new Set());
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [activeObject, setActiveObject] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const loadImage = (file: File) => {
+    setImageFile(file);
+    setImagePreview(URL.createObjectURL(file));
+    setImageSize(null);
+    setAnalysisResult(null);
+    setObjects(null);
+    setError(null);
+  };
+
+  useIncomingImage('image-analyzer', ({ image }) => {
+    setMode(prev => (prev === 'detect' ? prev : 'describe'));
+    loadImage(image);
+  });
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (file) {
-      setImageFile(file);
-      setImagePreview(URL.createObjectURL(file));
-      setAnalysisResult(null);
-      setError(null);
+      loadImage(file);
     }
   };
 
   const handleAnalyze = useCallback(async () => {
-    if (!prompt.trim() || !imageFile) {
-      setError("Please provide an image and a prompt.");
+    if (!imageFile || (mode === 'describe' && !prompt.trim())) {
+      setError(mode === 'describe' ? "Please provide an image and a prompt." : "Please provide an image.");
       return;
     }
     setIsLoading(true);
     setError(null);
-    setAnalysisResult(null);
 
     try {
-      const result = await analyzeImage(prompt, imageFile);
-      setAnalysisResult(result);
-    } catch (err) {
-      setError("Failed to analyze image. Please try again.");
+      if (mode === 'describe') {
+        setAnalysisResult(null);
+        setAnalysisResult(await analyzeImage(prompt, imageFile));
+      } else {
+        setObjects(null);
+        const detected = await detectObjects(imageFile, focus.trim() || undefined);
+        setObjects(detected);
+        setHiddenObjects(new Set());
+        setActiveObject(null);
+      }
+    } catch (err: any) {
+      setError(err.message);
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, imageFile]);
+  }, [mode, prompt, focus, imageFile]);
+
+  const toggleObject = (index: number) => {
+    setHiddenObjects(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = (format: DetectionExportFormat) => {
+    if (!objects || !imageFile || !imageSize) return;
+    const { fileName, mimeType, content } = formatDetectionExport(objects, { fileName: imageFile.name, ...imageSize }, format);
+
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const allHidden = objects ? new Set(objects.map((_, index) => index)) : new Set<number>();
 
   return (
     <div className="flex flex-col h-full bg-slate-900">
-      <header className="p-4 border-b border-slate-800">
+      <header className="p-4 border-b border-slate-800 flex items-center justify-between">
         <h2 className="text-xl font-semibold">Image Analysis</h2>
+        <div className="flex gap-1 text-sm bg-slate-800 rounded-lg p-1">
+          {modes.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => { setMode(value); setError(null); }}
+              disabled={isLoading}
+              className={`px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-cyan-500 text-white' : 'hover:bg-slate-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </header>
-      <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 md:p-6 overflow-hidden">
-        {/* Input and Controls */}
-        <div className="flex flex-col gap-4 overflow-y-auto pr-2">
-            <div 
-                className="relative border-2 border-dashed border-slate-700 rounded-lg h-64 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors cursor-pointer"
-                onClick={() => fileInputRef.current?.click()}
+      {/* Kept mounted so a running batch or a comparison survives switching tabs. */}
+      <div className={mode === 'compare' ? 'flex-1 flex flex-col overflow-hidden' : 'hidden'}>
+        <ImageComparison />
+      </div>
+      <div className={mode === 'batch' ? 'flex-1 flex flex-col overflow-hidden' : 'hidden'}>
+        <BatchImageAnalysis />
+      </div>
+      {(mode === 'describe' || mode === 'detect') && (
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 md:p-6 overflow-hidden">
+          {/* Input and Controls */}
+          <div className="flex flex-col gap-4 overflow-y-auto pr-2">
+              <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handleImageUpload}
+                  accept="image/*"
+                  className="hidden"
+              />
+              {imagePreview ? (
+                  <>
+                      <div className="bg-slate-950/50 rounded-lg border border-slate-800 flex items-center justify-center p-2 pt-6">
+                          <DetectionOverlay
+                              imageUrl={imagePreview}
+                              objects={mode === 'detect' ? objects ?? [] : []}
+                              hidden={showBoxes ? hiddenObjects : allHidden}
+                              activeIndex={activeObject}
+                              onActiveChange={setActiveObject}
+                              onImageLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                          />
+                      </div>
+                      <button
+                          onClick={() => fileInputRef.current?.click()}
+                          className="self-start text-sm text-cyan-400 hover:underline flex items-center gap-1"
+                      >
+                          <UploadCloud size={14} /> Choose a different image
+                      </button>
+                  </>
+              ) : (
+                  <div
+                      className="relative border-2 border-dashed border-slate-700 rounded-lg h-64 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors cursor-pointer"
+                      onClick={() => fileInputRef.current?.click()}
+                  >
+                      <UploadCloud size={48} />
+                      <p className="mt-2">Click to upload an image</p>
+                  </div>
+              )}
+              {mode === 'describe' ? (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor="prompt" className="block text-sm font-medium text-gray-400">Question</label>
+                    <PromptLibraryPicker feature="image-analyzer" prompt={prompt} onInsert={setPrompt} />
+                  </div>
+                  <textarea
+                    id="prompt"
+                    rows={3}
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    placeholder="e.g., What is in this image? Describe the main subject."
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="focus" className="block text-sm font-medium text-gray-400 mb-2">Look For (optional)</label>
+                  <input
+                    id="focus"
+                    value={focus}
+                    onChange={(e) => setFocus(e.target.value)}
+                    placeholder="e.g., cars, faces, traffic signs"
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+              )}
+            <button
+              onClick={handleAnalyze}
+              disabled={isLoading || !imageFile || (mode === 'describe' && !prompt)}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
             >
-                <input
-                    type="file"
-                    ref={fileInputRef}
-                    onChange={handleImageUpload}
-                    accept="image/*"
-                    className="hidden"
-                />
-                {imagePreview ? (
-                     <img src={imagePreview} alt="To be analyzed" className="max-h-full max-w-full object-contain rounded-md" />
-                ) : (
+              {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : mode === 'describe' ? <Sparkles className="h-5 w-5" /> : <ScanSearch className="h-5 w-5" />}
+              {mode === 'describe' ? 'Analyze Image' : 'Detect Objects'}
+            </button>
+            {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+          </div>
+
+          {/* Analysis Result */}
+          <div className="bg-slate-950/50 rounded-lg flex flex-col p-4 border border-slate-800 overflow-y-auto">
+            {isLoading && (
+              <div className="m-auto text-center">
+                <Loader2 className="h-12 w-12 animate-spin text-cyan-400 mx-auto" />
+                <p className="mt-4 text-gray-400">{mode === 'describe' ? 'Analyzing image...' : 'Detecting objects...'}</p>
+              </div>
+            )}
+            {!isLoading && mode === 'describe' && analysisResult && (
+               <div className="prose prose-invert prose-sm md:prose-base max-w-none">
+                  <ReactMarkdown>{analysisResult}</ReactMarkdown>
+               </div>
+            )}
+            {!isLoading && mode === 'detect' && objects && (
+              <div className="flex flex-col gap-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-slate-300 flex-1">
+                    {objects.length === 0 ? 'No objects found.' : `${objects.length} ${objects.length === 1 ? 'object' : 'objects'} found`}
+                  </span>
+                  {objects.length > 0 && (
                     <>
-                        <UploadCloud size={48} />
-                        <p className="mt-2">Click to upload an image</p>
+                      <button
+                        onClick={() => setShowBoxes(prev => !prev)}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700"
+                      >
+                        {showBoxes ? <EyeOff size={14} /> : <Eye size={14} />} {showBoxes ? 'Hide boxes' : 'Show boxes'}
+                      </button>
+                      <button
+                        onClick={() => handleExport('json')}
+                        disabled={!imageSize}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                      >
+                        <FileJson size={14} /> JSON
+                      </button>
+                      <button
+                        onClick={() => handleExport('coco')}
+                        disabled={!imageSize}
+                        className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                      >
+                        <FileJson size={14} /> COCO
+                      </button>
                     </>
-                )}
-            </div>
-            <div>
-            <label htmlFor="prompt" className="block text-sm font-medium text-gray-400 mb-2">Question</label>
-            <textarea
-              id="prompt"
-              rows={3}
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-              placeholder="e.g., What is in this image? Describe the main subject."
-              className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
-            />
+                  )}
+                </div>
+                <ul className="flex flex-col gap-1">
+                  {objects.map((object, index) => (
+                    <li
+                      key={index}
+                      onPointerEnter={() => setActiveObject(index)}
+                      onPointerLeave={() => setActiveObject(null)}
+                      className={`flex items-center gap-3 px-2 py-1.5 rounded-md text-sm ${activeObject === index ? 'bg-slate-800' : ''}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!hiddenObjects.has(index)}
+                        onChange={() => toggleObject(index)}
+                        disabled={!showBoxes}
+                        className="accent-cyan-500"
+                        aria-label={`Show ${object.label}`}
+                      />
+                      <span className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: colorForLabel(object.label) }} />
+                      <span className="flex-1 truncate">{object.label}</span>
+                      <span className="text-slate-400 tabular-nums">{Math.round(object.confidence * 100)}%</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {!isLoading && (mode === 'describe' ? !analysisResult : !objects) && (
+              <div className="m-auto text-center text-gray-500">
+                {mode === 'describe' ? <Sparkles size={64} className="mx-auto" /> : <ScanSearch size={64} className="mx-auto" />}
+                <p className="mt-4">{mode === 'describe' ? 'The analysis result will appear here.' : 'Detected objects will appear here.'}</p>
+              </div>
+            )}
           </div>
-          <button
-            onClick={handleAnalyze}
-            disabled={isLoading || !imageFile || !prompt}
-            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
-          >
-            {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Sparkles className="h-5 w-5" />}
-            Analyze Image
-          </button>
-          {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
         </div>
-
-        {/* Analysis Result */}
-        <div className="bg-slate-950/50 rounded-lg flex flex-col p-4 border border-slate-800 overflow-y-auto">
-          {isLoading && (
-            <div className="m-auto text-center">
-              <Loader2 className="h-12 w-12 animate-spin text-cyan-400 mx-auto" />
-              <p className="mt-4 text-gray-400">Analyzing image...</p>
-            </div>
-          )}
-          {!isLoading && analysisResult && (
-             <div className="prose prose-invert prose-sm md:prose-base max-w-none">
-                <ReactMarkdown>{analysisResult}</ReactMarkdown>
-             </div>
-          )}
-          {!isLoading && !analysisResult && (
-            <div className="m-auto text-center text-gray-500">
-              <Sparkles size={64} className="mx-auto" />
-              <p className="mt-4">The analysis result will appear here.</p>
-            </div>
-          )}
-        </div>
-      </div>
+      )}
     </div>
   );
 };
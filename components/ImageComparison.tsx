@@ -0,0 +1,141 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Loader2, UploadCloud, X, Columns2 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { compareImages, MAX_COMPARE_IMAGES } from '../services/geminiService';
+import PromptLibraryPicker from './PromptLibraryPicker';
+
+interface ComparedImage {
+  file: File;
+  previewUrl: string;
+}
+
+/**
+ * Asks one question about several images together, e.g. what changed between screenshots.
+ */
+const ImageComparison: React.FC = () => {
+  const [prompt, setPrompt] = useState('What changed between these images?');
+  const [images, setImages] = useState<ComparedImage[]>([]);
+  const [result, setResult] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const imagesRef = useRef<ComparedImage[]>([]);
+  imagesRef.current = images;
+  useEffect(() => () => imagesRef.current.forEach(image => URL.revokeObjectURL(image.previewUrl)), []);
+
+  const handleAddImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    const room = MAX_COMPARE_IMAGES - images.length;
+    if (files.length > room) {
+      setError(`You can compare up to ${MAX_COMPARE_IMAGES} images at once.`);
+    } else {
+      setError(null);
+    }
+    setImages(prev => [...prev, ...files.slice(0, room).map(file => ({ file, previewUrl: URL.createObjectURL(file) }))]);
+  };
+
+  const handleRemove = (index: number) => {
+    URL.revokeObjectURL(images[index].previewUrl);
+    setImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleCompare = async () => {
+    if (images.length < 2 || !prompt.trim()) {
+      setError("Please add at least two images and a question.");
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      setResult(await compareImages(prompt, images.map(image => image.file)));
+    } catch (err: any) {
+      setError(err.message);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 md:p-6 overflow-hidden">
+      <div className="flex flex-col gap-4 overflow-y-auto pr-2">
+        <input type="file" ref={fileInputRef} onChange={handleAddImages} accept="image/*" multiple className="hidden" />
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-2">
+          {images.map((image, index) => (
+            <div key={image.previewUrl} className="relative aspect-video bg-slate-950/50 rounded-lg border border-slate-800 overflow-hidden">
+              <img src={image.previewUrl} alt={image.file.name} className="w-full h-full object-contain" />
+              <span className="absolute top-1 left-1 text-xs bg-slate-900/80 px-1.5 py-0.5 rounded">Image {index + 1}</span>
+              <button
+                onClick={() => handleRemove(index)}
+                disabled={isLoading}
+                className="absolute top-1 right-1 p-1 bg-slate-900/80 rounded-full hover:bg-red-600"
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          {images.length < MAX_COMPARE_IMAGES && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="aspect-video border-2 border-dashed border-slate-700 rounded-lg flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors"
+            >
+              <UploadCloud size={28} />
+              <span className="mt-1 text-xs">Add images</span>
+            </button>
+          )}
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="compare-prompt" className="block text-sm font-medium text-gray-400">Question</label>
+            <PromptLibraryPicker feature="image-analyzer" prompt={prompt} onInsert={setPrompt} />
+          </div>
+          <textarea
+            id="compare-prompt"
+            rows={3}
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="e.g., What changed between these screenshots?"
+            className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </div>
+        <button
+          onClick={handleCompare}
+          disabled={isLoading || images.length < 2 || !prompt}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
+        >
+          {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Columns2 className="h-5 w-5" />}
+          Compare {images.length > 1 ? `${images.length} Images` : 'Images'}
+        </button>
+        {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+      </div>
+
+      <div className="bg-slate-950/50 rounded-lg flex flex-col p-4 border border-slate-800 overflow-y-auto">
+        {isLoading && (
+          <div className="m-auto text-center">
+            <Loader2 className="h-12 w-12 animate-spin text-cyan-400 mx-auto" />
+            <p className="mt-4 text-gray-400">Comparing images...</p>
+          </div>
+        )}
+        {!isLoading && result && (
+          <div className="prose prose-invert prose-sm md:prose-base max-w-none">
+            <ReactMarkdown>{result}</ReactMarkdown>
+          </div>
+        )}
+        {!isLoading && !result && (
+          <div className="m-auto text-center text-gray-500">
+            <Columns2 size={64} className="mx-auto" />
+            <p className="mt-4">The comparison will appear here.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageComparison;
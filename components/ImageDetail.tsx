@@ -0,0 +1,242 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, X, GitBranch, Edit, Sparkles, ImagePlus, Download } from 'lucide-react';
+import { getImageLineage, UserImage, ImageFeature, SignedImageUrl } from '../services/supabaseService';
+import { useAuth } from '../hooks/useAuth';
+import { URL_REFRESH_MARGIN_MS } from '../hooks/useSignedUrls';
+import type { HandoffTarget } from '../hooks/useImageHandoff';
+import ImageFormatSelect, { ImageFormatChoice } from './ImageFormatSelect';
+
+interface ImageDetailProps {
+    image: UserImage;
+    urls: Map<string, SignedImageUrl>;
+    onRequestUrl: (storagePath: string) => void;
+    /** Opens another image of the same lineage. */
+    onSelect: (image: UserImage) => void;
+    onSend: (image: UserImage, target: HandoffTarget) => void;
+    onDownload: (image: UserImage, format: ImageFormatChoice) => Promise<void>;
+    onClose: () => void;
+}
+
+const sendActions: { target: HandoffTarget; label: string; icon: React.ElementType }[] = [
+    { target: 'image-editor', label: 'Edit', icon: Edit },
+    { target: 'image-analyzer', label: 'Analyze', icon: Sparkles },
+    { target: 'image-generator', label: 'Use as reference', icon: ImagePlus },
+];
+
+const featureLabels: Record<ImageFeature, string> = {
+    'image-generation': 'Image Generation',
+    'image-editor': 'Image Editor',
+};
+
+const parameterLabels: Record<string, string> = {
+    aspectRatio: 'Aspect ratio',
+    numberOfImages: 'Images per run',
+    negativePrompt: 'Negative prompt',
+    seed: 'Seed',
+    personGeneration: 'People',
+    variation: 'Variation',
+    reference: 'From a reference image',
+    maskedSteps: 'Masked steps',
+    originalPrompt: 'Original prompt',
+};
+
+const formatParameter = (value: unknown): string => {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'None';
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+interface LineageNodeProps {
+    image: UserImage;
+    childrenOf: Map<number | null, UserImage[]>;
+    currentId: number;
+    urls: Map<string, SignedImageUrl>;
+    onSelect: (image: UserImage) => void;
+}
+
+const LineageNode: React.FC<LineageNodeProps> = ({ image, childrenOf, currentId, urls, onSelect }) => {
+    const children = childrenOf.get(image.id) ?? [];
+    const url = urls.get(image.thumbnail_path ?? image.storage_path)?.url;
+    return (
+        <li>
+            <button
+                onClick={() => onSelect(image)}
+                disabled={image.id === currentId}
+                className={`w-full flex items-center gap-2 p-1 rounded-md text-left text-sm transition-colors ${
+                    image.id === currentId ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-300 hover:bg-slate-800'
+                }`}
+            >
+                {url ? (
+                    <img src={url} alt={image.prompt} className="h-10 w-10 flex-shrink-0 object-cover rounded" />
+                ) : (
+                    <div className="h-10 w-10 flex-shrink-0 rounded bg-slate-800" />
+                )}
+                <span className="truncate" title={image.prompt}>{image.prompt}</span>
+            </button>
+            {children.length > 0 && (
+                <ul className="ml-5 pl-2 border-l border-slate-700">
+                    {children.map(child => (
+                        <LineageNode key={child.id} image={child} childrenOf={childrenOf} currentId={currentId} urls={urls} onSelect={onSelect} />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+};
+
+/**
+ * A full-screen view of one gallery image with how it was made and the other images it was
+ * derived from or led to.
+ */
+const ImageDetail: React.FC<ImageDetailProps> = ({ image, urls, onRequestUrl, onSelect, onSend, onDownload, onClose }) => {
+    const [lineage, setLineage] = useState<UserImage[] | null>(null);
+    const [lineageError, setLineageError] = useState<string | null>(null);
+    const [downloadFormat, setDownloadFormat] = useState<ImageFormatChoice>('original');
+    const [isDownloading, setIsDownloading] = useState(false);
+    const { user } = useAuth();
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        setLineageError(null);
+        getImageLineage(user.id, image.id)
+            .then(images => { if (!cancelled) setLineage(images); })
+            .catch((err: any) => { if (!cancelled) setLineageError(err.message); });
+        return () => { cancelled = true; };
+    }, [user, image.id]);
+
+    // The open image is shown full size; the lineage only needs thumbnails.
+    useEffect(() => {
+        const now = Date.now();
+        const paths = [image.storage_path, ...(lineage ?? []).map(member => member.thumbnail_path ?? member.storage_path)];
+        for (const path of paths) {
+            const signed = urls.get(path);
+            if (!signed || signed.expiresAt - URL_REFRESH_MARGIN_MS < now) {
+                onRequestUrl(path);
+            }
+        }
+    }, [lineage, image, urls, onRequestUrl]);
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        try {
+            await onDownload(image, downloadFormat);
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const childrenOf = new Map<number | null, UserImage[]>();
+    const ids = new Set((lineage ?? []).map(member => member.id));
+    for (const member of lineage ?? []) {
+        // An image whose parent was deleted starts its own branch.
+        const parentId = member.parent_id !== null && ids.has(member.parent_id) ? member.parent_id : null;
+        childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), member]);
+    }
+    childrenOf.forEach(children => children.sort((a, b) => a.created_at.localeCompare(b.created_at)));
+    const roots = childrenOf.get(null) ?? [];
+
+    const url = urls.get(image.storage_path)?.url;
+    const parameters = Object.entries(image.parameters ?? {}).filter(([, value]) => value !== undefined && value !== null && value !== '');
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                className="bg-slate-900 border border-slate-700 rounded-lg w-full max-w-5xl max-h-full flex flex-col md:flex-row overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Image details"
+            >
+                <div className="md:w-3/5 bg-slate-950 flex items-center justify-center p-4 min-h-[16rem]">
+                    {url ? (
+                        <img src={url} alt={image.prompt} className="max-w-full max-h-[75vh] object-contain" />
+                    ) : (
+                        <Loader2 className="h-8 w-8 animate-spin text-slate-600" />
+                    )}
+                </div>
+                <div className="md:w-2/5 flex flex-col overflow-y-auto">
+                    <div className="flex items-start justify-between gap-2 p-4 border-b border-slate-800">
+                        <p className="font-semibold break-words">{image.prompt}</p>
+                        <button onClick={onClose} className="p-1 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200" aria-label="Close">
+                            <X size={18} />
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2 px-4 pt-4">
+                        {sendActions.map(({ target, label, icon: Icon }) => (
+                            <button
+                                key={target}
+                                onClick={() => onSend(image, target)}
+                                className="flex items-center gap-1 text-sm px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700"
+                            >
+                                <Icon size={14} /> {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 px-4 pt-2 text-sm">
+                        <ImageFormatSelect value={downloadFormat} onChange={setDownloadFormat} disabled={isDownloading} />
+                        <button
+                            onClick={handleDownload}
+                            disabled={isDownloading}
+                            className="flex items-center gap-1 px-3 py-2 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                        >
+                            {isDownloading ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} Download
+                        </button>
+                    </div>
+                    <dl className="p-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                        <dt className="text-slate-500">Created</dt>
+                        <dd>{new Date(image.created_at).toLocaleString()}</dd>
+                        <dt className="text-slate-500">Made with</dt>
+                        <dd>{featureLabels[image.feature]}</dd>
+                        <dt className="text-slate-500">Model</dt>
+                        <dd className="break-all">{image.model ?? 'Not recorded'}</dd>
+                        <dt className="text-slate-500">Format</dt>
+                        <dd>{(image.mime_type ?? 'image/png').replace('image/', '').toUpperCase()}</dd>
+                        {parameters.map(([key, value]) => (
+                            <React.Fragment key={key}>
+                                <dt className="text-slate-500">{parameterLabels[key] ?? key}</dt>
+                                <dd className="break-words">{formatParameter(value)}</dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                    {image.edit_prompts.length > 0 && (
+                        <div className="px-4 pb-4">
+                            <h3 className="text-sm font-medium text-slate-400 mb-2">Edit steps</h3>
+                            <ol className="list-decimal list-inside text-sm space-y-1 text-slate-300">
+                                {image.edit_prompts.map((prompt, index) => <li key={index}>{prompt}</li>)}
+                            </ol>
+                        </div>
+                    )}
+                    <div className="px-4 pb-4">
+                        <h3 className="text-sm font-medium text-slate-400 mb-2 flex items-center gap-1">
+                            <GitBranch size={14} /> Lineage
+                        </h3>
+                        {lineageError && <p className="text-sm text-red-400">{lineageError}</p>}
+                        {!lineageError && !lineage && <Loader2 className="h-5 w-5 animate-spin text-slate-500" />}
+                        {lineage && lineage.length === 1 && (
+                            <p className="text-sm text-slate-500">This image wasn't made from, and hasn't led to, any other saved image.</p>
+                        )}
+                        {lineage && lineage.length > 1 && (
+                            <ul>
+                                {roots.map(root => (
+                                    <LineageNode key={root.id} image={root} childrenOf={childrenOf} currentId={image.id} urls={urls} onSelect={onSelect} />
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImageDetail;
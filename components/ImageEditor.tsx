@@ -1,57 +1,119 @@
-
-import React, { useState, useCallback, useRef } from 'react';
-import { Edit, Loader2, UploadCloud, Save } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Edit, Loader2, UploadCloud, Save, Undo2, Redo2, Sparkles, ImagePlus } from 'lucide-react';
 import { editImage } from '../services/geminiService';
 import { useAuth } from '../hooks/useAuth';
+import { useIncomingImage, useSendImage } from '../hooks/useImageHandoff';
 import { saveImage } from '../services/supabaseService';
+import { getAIProvider } from '../services/aiProvider';
+import { base64ToFile, fileToBase64, convertImage, extensionForMimeType } from '../services/imageFiles';
+import ImageFormatSelect, { ImageFormatChoice } from './ImageFormatSelect';
+import MaskCanvas from './MaskCanvas';
+import BeforeAfterSlider from './BeforeAfterSlider';
+import PromptLibraryPicker from './PromptLibraryPicker';
+
+// One image in the edit chain. The first step is the starting image and has no prompt.
+interface EditStep {
+  image: File;
+  previewUrl: string;
+  prompt: string | null;
+  /** Whether the edit was limited to a painted area. */
+  masked: boolean;
+  /** The gallery id, once this step has been saved. */
+  savedId?: number;
+}
 
 const ImageEditor: React.FC = () => {
   const [prompt, setPrompt] = useState('');
-  const [originalImage, setOriginalImage] = useState<File | null>(null);
-  const [originalImagePreview, setOriginalImagePreview] = useState<string | null>(null);
-  const [editedImage, setEditedImage] = useState<string | null>(null);
+  const [steps, setSteps] = useState<EditStep[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  // When on, each edit applies to the current step; when off, every edit restarts from the upload.
+  const [stackEdits, setStackEdits] = useState(true);
+  const [mask, setMask] = useState<string | null>(null);
+  const [saveFormat, setSaveFormat] = useState<ImageFormatChoice>('original');
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
+  const sendImage = useSendImage();
+
+  const currentStep = steps[currentIndex];
+  const previousStep = currentIndex > 0 ? steps[currentIndex - 1] : null;
+  const inputStep = stackEdits ? currentStep : steps[0];
+
+  // Preview URLs are released when their step leaves the chain.
+  const stepsRef = useRef<EditStep[]>([]);
+  useEffect(() => {
+    const kept = new Set(steps.map(step => step.previewUrl));
+    const removed = stepsRef.current.filter(step => !kept.has(step.previewUrl));
+    removed.forEach(step => URL.revokeObjectURL(step.previewUrl));
+    stepsRef.current = steps;
+  }, [steps]);
+
+  useEffect(() => () => stepsRef.current.forEach(step => URL.revokeObjectURL(step.previewUrl)), []);
+
+  // A saved image starts the chain with its gallery id, so edits saved from it link back to it.
+  const startChain = (file: File, savedId?: number) => {
+    setSteps([{ image: file, previewUrl: URL.createObjectURL(file), prompt: null, masked: false, savedId }]);
+    setCurrentIndex(0);
+    setError(null);
+  };
+
+  useIncomingImage('image-editor', ({ image, galleryId }) => startChain(image, galleryId));
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (file) {
-      setOriginalImage(file);
-      setOriginalImagePreview(URL.createObjectURL(file));
-      setEditedImage(null);
-      setError(null);
+      startChain(file);
     }
   };
 
   const handleEdit = useCallback(async () => {
-    if (!prompt.trim() || !originalImage) {
+    if (!prompt.trim() || !inputStep) {
       setError("Please provide an image and a prompt.");
       return;
     }
     setIsLoading(true);
     setError(null);
-    setEditedImage(null);
 
     try {
-      const imageBytes = await editImage(prompt, originalImage);
-      setEditedImage(imageBytes); // Store base64 string
-    } catch (err) {
-      setError("Failed to edit image. Please try again.");
+      const edited = await editImage(prompt, inputStep.image, mask ?? undefined);
+      const image = base64ToFile(edited.data, `edit-${Date.now()}.${extensionForMimeType(edited.mimeType)}`, edited.mimeType);
+      const step: EditStep = { image, previewUrl: URL.createObjectURL(image), prompt, masked: !!mask };
+      // A new edit drops any steps that had been undone, like redo history in an editor.
+      const base = stackEdits ? steps.slice(0, currentIndex + 1) : steps.slice(0, 1);
+      setSteps([...base, step]);
+      setCurrentIndex(base.length);
+      setPrompt('');
+    } catch (err: any) {
+      setError(err.message);
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, originalImage]);
-  
+  }, [prompt, inputStep, mask, stackEdits, steps, currentIndex]);
+
   const handleSave = async () => {
-    if (!editedImage || !user) return;
+    if (!currentStep?.prompt || !user) return;
     setIsSaving(true);
     setError(null);
     try {
-        await saveImage(user.id, prompt, editedImage);
+        const chain = steps.slice(1, currentIndex + 1);
+        const chainPrompts = chain.map(step => step.prompt ?? '');
+        // The latest earlier step that was saved is this image's parent in the gallery.
+        const parent = steps.slice(0, currentIndex).reverse().find(step => step.savedId !== undefined);
+        const original = { data: await fileToBase64(currentStep.image), mimeType: currentStep.image.type };
+        const image = saveFormat === 'original' ? original : await convertImage(original, saveFormat);
+        const saved = await saveImage(user.id, chainPrompts.join(' → '), image, {
+          feature: 'image-editor',
+          model: getAIProvider().imageEditModel,
+          parameters: { maskedSteps: chain.flatMap((step, i) => step.masked ? [i + 1] : []) },
+          parentId: parent?.savedId ?? null,
+          editPrompts: chainPrompts,
+        });
+        const savedIndex = currentIndex;
+        setSteps(prev => prev.map((step, i) => i === savedIndex ? { ...step, savedId: saved.id } : step));
         alert('Image saved to your gallery!');
     } catch (err: any) {
         setError(`Failed to save image: ${err.message}`);
@@ -64,34 +126,63 @@ const ImageEditor: React.FC = () => {
 
   return (
     <div className="flex flex-col h-full bg-slate-900">
-      <header className="p-4 border-b border-slate-800">
+      <header className="p-4 border-b border-slate-800 flex justify-between items-center">
         <h2 className="text-xl font-semibold">Image Editor</h2>
+        {steps.length > 1 && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setCurrentIndex(prev => prev - 1)}
+              disabled={currentIndex === 0 || isLoading}
+              className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+              aria-label="Undo edit"
+            >
+              <Undo2 size={18} />
+            </button>
+            <button
+              onClick={() => setCurrentIndex(prev => prev + 1)}
+              disabled={currentIndex === steps.length - 1 || isLoading}
+              className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+              aria-label="Redo edit"
+            >
+              <Redo2 size={18} />
+            </button>
+          </div>
+        )}
       </header>
       <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 md:p-6 overflow-hidden">
         {/* Input and Controls */}
         <div className="flex flex-col gap-4 overflow-y-auto pr-2">
-            <div 
-                className="relative border-2 border-dashed border-slate-700 rounded-lg h-64 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors cursor-pointer"
-                onClick={() => fileInputRef.current?.click()}
-            >
-                <input
-                    type="file"
-                    ref={fileInputRef}
-                    onChange={handleImageUpload}
-                    accept="image/*"
-                    className="hidden"
-                />
-                {originalImagePreview ? (
-                     <img src={originalImagePreview} alt="Original" className="max-h-full max-w-full object-contain rounded-md" />
-                ) : (
-                    <>
-                        <UploadCloud size={48} />
-                        <p className="mt-2">Click to upload an image</p>
-                    </>
-                )}
-            </div>
+            <input
+                type="file"
+                ref={fileInputRef}
+                onChange={handleImageUpload}
+                accept="image/*"
+                className="hidden"
+            />
+            {inputStep ? (
+                <>
+                    <MaskCanvas imageUrl={inputStep.previewUrl} onMaskChange={setMask} disabled={isLoading} />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="self-start text-sm text-cyan-400 hover:underline flex items-center gap-1"
+                    >
+                        <UploadCloud size={14} /> Choose a different image
+                    </button>
+                </>
+            ) : (
+                <div
+                    className="relative border-2 border-dashed border-slate-700 rounded-lg h-64 flex flex-col items-center justify-center text-gray-500 hover:border-cyan-500 hover:text-cyan-400 transition-colors cursor-pointer"
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    <UploadCloud size={48} />
+                    <p className="mt-2">Click to upload an image</p>
+                </div>
+            )}
             <div>
-            <label htmlFor="prompt" className="block text-sm font-medium text-gray-400 mb-2">Editing Prompt</label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="prompt" className="block text-sm font-medium text-gray-400">Editing Prompt</label>
+              <PromptLibraryPicker feature="image-editor" prompt={prompt} onInsert={setPrompt} />
+            </div>
             <textarea
               id="prompt"
               rows={3}
@@ -101,13 +192,26 @@ const ImageEditor: React.FC = () => {
               className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
             />
           </div>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            <input
+              type="checkbox"
+              checked={stackEdits}
+              onChange={(e) => setStackEdits(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Apply the next edit to the current result
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            Save as
+            <ImageFormatSelect value={saveFormat} onChange={setSaveFormat} className="text-slate-200" />
+          </label>
           <button
             onClick={handleEdit}
-            disabled={isLoading || !originalImage || !prompt}
+            disabled={isLoading || !inputStep || !prompt}
             className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
           >
             {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Edit className="h-5 w-5" />}
-            Apply Edit
+            {mask ? 'Edit Painted Area' : 'Apply Edit'}
           </button>
           {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
         </div>
@@ -120,20 +224,38 @@ const ImageEditor: React.FC = () => {
               <p className="mt-4 text-gray-400">Applying your edits...</p>
             </div>
           )}
-          {!isLoading && editedImage && (
+          {!isLoading && currentStep && previousStep && (
             <>
-              <img src={`data:image/png;base64,${editedImage}`} alt="Edited" className="max-w-full max-h-full object-contain rounded-md" />
-               <button
-                onClick={handleSave}
-                disabled={isSaving}
-                className="absolute bottom-4 right-4 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-800"
-              >
-                {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Save className="h-5 w-5" />}
-                Save Image
-              </button>
+              <BeforeAfterSlider beforeUrl={previousStep.previewUrl} afterUrl={currentStep.previewUrl} />
+              <div className="absolute bottom-4 right-4 flex gap-2">
+                <button
+                  onClick={() => sendImage('image-analyzer', { image: currentStep.image, galleryId: currentStep.savedId })}
+                  className="p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                  aria-label="Analyze this image"
+                  title="Analyze"
+                >
+                  <Sparkles className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={() => sendImage('image-generator', { image: currentStep.image, galleryId: currentStep.savedId })}
+                  className="p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg transition-colors"
+                  aria-label="Use as reference for image generation"
+                  title="Use as reference"
+                >
+                  <ImagePlus className="h-5 w-5" />
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || currentStep.savedId !== undefined}
+                  className="bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-800"
+                >
+                  {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Save className="h-5 w-5" />}
+                  {currentStep.savedId !== undefined ? 'Saved' : 'Save Image'}
+                </button>
+              </div>
             </>
           )}
-          {!isLoading && !editedImage && (
+          {!isLoading && !previousStep && (
             <div className="text-center text-gray-500">
               <Edit size={64} className="mx-auto" />
               <p className="mt-4">Your edited image will appear here.</p>
@@ -141,6 +263,31 @@ const ImageEditor: React.FC = () => {
           )}
         </div>
       </div>
+
+      {/* Edit history */}
+      {steps.length > 1 && (
+        <div className="border-t border-slate-800 p-3 overflow-x-auto">
+          <ol className="flex gap-3">
+            {steps.map((step, index) => (
+              <li key={step.previewUrl} className="flex-shrink-0 w-28">
+                <button
+                  onClick={() => setCurrentIndex(index)}
+                  disabled={isLoading}
+                  className={`w-full rounded-md overflow-hidden border-2 transition-colors ${
+                    index === currentIndex ? 'border-cyan-400' : index > currentIndex ? 'border-transparent opacity-50' : 'border-transparent hover:border-slate-600'
+                  }`}
+                  aria-label={`Go to step ${index}`}
+                >
+                  <img src={step.previewUrl} alt={step.prompt ?? 'Original'} className="h-20 w-full object-cover" />
+                </button>
+                <p className="mt-1 text-xs text-slate-400 line-clamp-2" title={step.prompt ?? 'Original'}>
+                  {index === 0 ? 'Original' : `${index}. ${step.prompt}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </div>
   );
 };
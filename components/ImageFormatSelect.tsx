@@ -0,0 +1,30 @@
+import React from 'react';
+import { IMAGE_FORMATS, ImageFormat } from '../services/imageFiles';
+
+/** A target format, or 'original' to keep the image as it is. */
+export type ImageFormatChoice = ImageFormat | 'original';
+
+interface ImageFormatSelectProps {
+  id?: string;
+  value: ImageFormatChoice;
+  onChange: (value: ImageFormatChoice) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const ImageFormatSelect: React.FC<ImageFormatSelectProps> = ({ id, value, onChange, disabled, className = '' }) => (
+  <select
+    id={id}
+    value={value}
+    onChange={(e) => onChange(e.target.value as ImageFormatChoice)}
+    disabled={disabled}
+    className={`bg-slate-800 border border-slate-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500 ${className}`}
+  >
+    <option value="original">Original format</option>
+    {IMAGE_FORMATS.map(format => (
+      <option key={format.value} value={format.value}>{format.label}</option>
+    ))}
+  </select>
+);
+
+export default ImageFormatSelect;
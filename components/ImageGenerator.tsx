@@ -1,21 +1,108 @@
-
 import React, { useState, useCallback } from 'react';
-import { Image, Loader2, Save } from 'lucide-react';
-import { generateImage } from '../services/geminiService';
+import { Image, Loader2, Save, Check, Shuffle, X, Edit, Sparkles, ImagePlus, Wand2 } from 'lucide-react';
+import { generateImages, generateImageVariations, generateFromReference, enhanceImagePrompt, GeneratedImage, PersonGeneration, MAX_IMAGES_PER_RUN } from '../services/geminiService';
 import { useAuth } from '../hooks/useAuth';
-import { saveImage } from '../services/supabaseService';
+import { useIncomingImage, useSendImage, HandoffTarget } from '../hooks/useImageHandoff';
+import { saveImage, ImageProvenance } from '../services/supabaseService';
+import { getAIProvider } from '../services/aiProvider';
+import { base64ToFile, fileToBase64, convertImage, extensionForMimeType } from '../services/imageFiles';
+import ImageFormatSelect, { ImageFormatChoice } from './ImageFormatSelect';
+import PromptLibraryPicker from './PromptLibraryPicker';
 
 
 const aspectRatios = ["1:1", "16:9", "9:16", "4:3", "3:4"];
 
+const personGenerationOptions: { value: PersonGeneration; label: string }[] = [
+  { value: 'allow_adult', label: 'Adults only' },
+  { value: 'allow_all', label: 'Adults and children' },
+  { value: 'dont_allow', label: 'No people' },
+];
+
+// An image new generations are based on, and its gallery id if it is a saved one.
+interface ReferenceImage {
+  image: GeneratedImage;
+  galleryId?: number;
+}
+
+// Rewritten versions of `source` for the user to compare and edit before picking one.
+interface PromptAlternatives {
+  source: string;
+  prompts: string[];
+}
+
 const ImageGenerator: React.FC = () => {
   const [prompt, setPrompt] = useState('');
+  // The user's own prompt, when the one in the box came from the enhance step.
+  const [originalPrompt, setOriginalPrompt] = useState<string | null>(null);
+  const [alternatives, setAlternatives] = useState<PromptAlternatives | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [negativePrompt, setNegativePrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState('1:1');
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [imageCount, setImageCount] = useState(1);
+  const [personGeneration, setPersonGeneration] = useState<PersonGeneration>('allow_adult');
+  const [saveFormat, setSaveFormat] = useState<ImageFormatChoice>('original');
+  const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+  // The prompt and provenance of the current results, so saving isn't affected by later edits.
+  const [resultPrompt, setResultPrompt] = useState('');
+  const [resultProvenance, setResultProvenance] = useState<ImageProvenance | null>(null);
+  const [variationSource, setVariationSource] = useState<GeneratedImage | null>(null);
+  const [reference, setReference] = useState<ReferenceImage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+  // Gallery ids of the results saved so far, by result index.
+  const [savedIds, setSavedIds] = useState<Record<number, number>>({});
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const sendImage = useSendImage();
+
+  useIncomingImage('image-generator', async ({ image, prompt: sourcePrompt, galleryId }) => {
+    try {
+      setReference({ image: { data: await fileToBase64(image), mimeType: image.type || 'image/png' }, galleryId });
+      if (sourcePrompt) setPrompt(prev => prev.trim() ? prev : sourcePrompt);
+      setError(null);
+    } catch (err: any) {
+      setError(`Failed to load the reference image: ${err.message}`);
+    }
+  });
+
+  const showResults = (images: GeneratedImage[], fromPrompt: string, provenance: ImageProvenance) => {
+    setGeneratedImages(images);
+    setResultPrompt(fromPrompt);
+    setResultProvenance(provenance);
+    setSavedIds({});
+  };
+
+  const handleEnhance = async () => {
+    if (!prompt.trim()) return;
+    // Enhancing an enhanced prompt still records the user's first version.
+    const source = originalPrompt ?? prompt;
+    setIsEnhancing(true);
+    setError(null);
+    try {
+      setAlternatives({ source, prompts: await enhanceImagePrompt(prompt) });
+    } catch (err: any) {
+      setError(err.message);
+      console.error(err);
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handlePickAlternative = (index: number) => {
+    if (!alternatives) return;
+    setPrompt(alternatives.prompts[index]);
+    setOriginalPrompt(alternatives.source);
+    setAlternatives(null);
+  };
+
+  const handleEditAlternative = (index: number, text: string) => {
+    setAlternatives(prev => prev && { ...prev, prompts: prev.prompts.map((other, i) => (i === index ? text : other)) });
+  };
+
+  const replacePrompt = (text: string) => {
+    setPrompt(text);
+    setOriginalPrompt(null);
+  };
 
   const handleGenerate = useCallback(async () => {
     if (!prompt.trim()) {
@@ -24,31 +111,88 @@ const ImageGenerator: React.FC = () => {
     }
     setIsLoading(true);
     setError(null);
-    setGeneratedImage(null);
+    setVariationSource(null);
+    const enhancement = originalPrompt ? { originalPrompt } : {};
+
+    try {
+      if (reference) {
+        const images = await generateFromReference(prompt, reference.image, imageCount);
+        showResults(images, prompt, {
+          feature: 'image-generation',
+          model: getAIProvider().imageEditModel,
+          parameters: { reference: true, numberOfImages: imageCount, ...enhancement },
+          parentId: reference.galleryId ?? null,
+        });
+        return;
+      }
+      const options = {
+        aspectRatio,
+        numberOfImages: imageCount,
+        negativePrompt: negativePrompt.trim() || undefined,
+        personGeneration,
+      };
+      const images = await generateImages(prompt, options);
+      showResults(images, prompt, {
+        feature: 'image-generation',
+        model: getAIProvider().imageModel,
+        parameters: { ...options, ...enhancement },
+      });
+    } catch (err: any) {
+      setError(err.message);
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [prompt, originalPrompt, negativePrompt, aspectRatio, imageCount, personGeneration, reference]);
+
+  const handleVariations = async (index: number) => {
+    const source = generatedImages[index];
+    // Variations of a saved image are recorded as derived from it.
+    const parentId = savedIds[index] ?? resultProvenance?.parentId ?? null;
+    const sourceOriginal = resultProvenance?.parameters?.originalPrompt;
+    setIsLoading(true);
+    setError(null);
+    setVariationSource(source);
 
     try {
-      const imageBytes = await generateImage(prompt, aspectRatio);
-      setGeneratedImage(imageBytes); // Store base64 bytes directly
-    } catch (err) {
-      setError("Failed to generate image. Please try again.");
+      const images = await generateImageVariations(resultPrompt, source, imageCount);
+      showResults(images, resultPrompt, {
+        feature: 'image-generation',
+        model: getAIProvider().imageEditModel,
+        parameters: { variation: true, numberOfImages: imageCount, ...(sourceOriginal ? { originalPrompt: sourceOriginal } : {}) },
+        parentId,
+      });
+    } catch (err: any) {
+      setError(err.message);
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [prompt, aspectRatio]);
+  };
+
+  const handleSend = (index: number, target: HandoffTarget) => {
+    const image = generatedImages[index];
+    const file = base64ToFile(image.data, `generated-${Date.now()}.${extensionForMimeType(image.mimeType)}`, image.mimeType);
+    sendImage(target, { image: file, prompt: resultPrompt, galleryId: savedIds[index] });
+  };
+
+  const handleUseAsReference = (index: number) => {
+    setReference({ image: generatedImages[index], galleryId: savedIds[index] });
+  };
 
-  const handleSave = async () => {
-    if (!generatedImage || !user) return;
-    setIsSaving(true);
+  const handleSave = async (index: number) => {
+    if (!user || !resultProvenance) return;
+    setSavingIndex(index);
     setError(null);
     try {
-        await saveImage(user.id, prompt, generatedImage);
-        alert('Image saved to your gallery!');
+        const image = generatedImages[index];
+        const saved = await saveImage(user.id, resultPrompt, saveFormat === 'original' ? image : await convertImage(image, saveFormat), resultProvenance);
+        setSavedIds(prev => ({ ...prev, [index]: saved.id }));
     } catch (err: any) {
         setError(`Failed to save image: ${err.message}`);
         console.error(err);
     } finally {
-        setIsSaving(false);
+        setSavingIndex(null);
     }
   };
 
@@ -62,15 +206,63 @@ const ImageGenerator: React.FC = () => {
         {/* Controls */}
         <div className="md:w-1/3 flex flex-col gap-4 overflow-y-auto pr-2">
           <div>
-            <label htmlFor="prompt" className="block text-sm font-medium text-gray-400 mb-2">Prompt</label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="prompt" className="block text-sm font-medium text-gray-400">Prompt</label>
+              <PromptLibraryPicker feature="image-generator" prompt={prompt} onInsert={replacePrompt} />
+            </div>
             <textarea
               id="prompt"
               rows={5}
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
+              onChange={(e) => {
+                setPrompt(e.target.value);
+                if (!e.target.value.trim()) setOriginalPrompt(null);
+              }}
               placeholder="e.g., A majestic lion wearing a crown, cinematic lighting"
               className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
             />
+            <div className="flex items-start gap-2 mt-1">
+              <p className="flex-1 min-w-0 text-xs text-slate-500">
+                {originalPrompt && (
+                  <>
+                    <span className="block truncate" title={originalPrompt}>Enhanced from "{originalPrompt}"</span>
+                    <button onClick={() => setOriginalPrompt(null)} className="text-cyan-400 hover:underline">Forget original</button>
+                  </>
+                )}
+              </p>
+              <button
+                onClick={handleEnhance}
+                disabled={isEnhancing || isLoading || !prompt.trim()}
+                className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+                title="Rewrite the prompt with more detail on subject, style, lighting and composition"
+              >
+                {isEnhancing ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />} Enhance
+              </button>
+            </div>
+          </div>
+          {reference && (
+            <div className="flex items-center gap-3 p-2 rounded-lg bg-slate-800 text-sm">
+              <img src={`data:${reference.image.mimeType};base64,${reference.image.data}`} alt="Reference" className="h-12 w-12 object-cover rounded-md" />
+              <div className="flex-1">
+                <p className="text-slate-200">Using a reference image</p>
+                <p className="text-xs text-slate-500">Aspect ratio, negative prompt and people settings don't apply.</p>
+              </div>
+              <button onClick={() => setReference(null)} className="p-1 text-slate-400 hover:text-slate-200" aria-label="Remove reference image">
+                <X size={16} />
+              </button>
+            </div>
+          )}
+          <div>
+            <label htmlFor="negative-prompt" className="block text-sm font-medium text-gray-400 mb-2">Negative Prompt</label>
+            <textarea
+              id="negative-prompt"
+              rows={2}
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+              placeholder="e.g., blurry, text, watermark"
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+            <p className="mt-1 text-xs text-slate-500">Added to the prompt as things to avoid.</p>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-400 mb-2">Aspect Ratio</label>
@@ -88,42 +280,137 @@ const ImageGenerator: React.FC = () => {
               ))}
             </div>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-2">Number of Images</label>
+            <div className="grid grid-cols-4 gap-2">
+              {Array.from({ length: MAX_IMAGES_PER_RUN }, (_, i) => i + 1).map(count => (
+                <button
+                  key={count}
+                  onClick={() => setImageCount(count)}
+                  className={`py-2 px-3 text-sm rounded-md transition-colors ${
+                    imageCount === count ? 'bg-cyan-500 text-white' : 'bg-slate-800 hover:bg-slate-700'
+                  }`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="person-generation" className="block text-sm font-medium text-gray-400 mb-2">People</label>
+            <select
+              id="person-generation"
+              value={personGeneration}
+              onChange={(e) => setPersonGeneration(e.target.value as PersonGeneration)}
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              {personGenerationOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="save-format" className="block text-sm font-medium text-gray-400 mb-2">Save As</label>
+            <ImageFormatSelect id="save-format" value={saveFormat} onChange={setSaveFormat} className="w-full" />
+          </div>
           <button
             onClick={handleGenerate}
             disabled={isLoading}
             className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-600"
           >
             {isLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Image className="h-5 w-5" />}
-            Generate Image
+            {imageCount > 1 ? `Generate ${imageCount} Images` : 'Generate Image'}
           </button>
            {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
         </div>
 
         {/* Image Display */}
-        <div className="md:w-2/3 flex-1 bg-slate-950/50 rounded-lg flex flex-col items-center justify-center p-4 border border-slate-800 relative">
+        <div className="md:w-2/3 flex-1 bg-slate-950/50 rounded-lg flex flex-col p-4 border border-slate-800 overflow-y-auto">
+          {alternatives && (
+            <div className="mb-4 flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-slate-300 flex items-center gap-1"><Wand2 size={14} /> Enhanced prompts</h3>
+                <button onClick={() => setAlternatives(null)} className="p-1 text-slate-400 hover:text-slate-200" aria-label="Dismiss enhanced prompts">
+                  <X size={16} />
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">Your prompt: "{alternatives.source}"</p>
+              {alternatives.prompts.map((alternative, index) => (
+                <div key={index} className="flex flex-col gap-2 p-3 rounded-lg bg-slate-900 border border-slate-800">
+                  <textarea
+                    rows={4}
+                    value={alternative}
+                    onChange={(e) => handleEditAlternative(index, e.target.value)}
+                    aria-label={`Enhanced prompt ${index + 1}`}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <button
+                    onClick={() => handlePickAlternative(index)}
+                    disabled={!alternative.trim()}
+                    className="self-end flex items-center gap-1 text-sm px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-600"
+                  >
+                    <Check size={14} /> Use this prompt
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {variationSource && (
+            <div className="flex items-center gap-3 mb-4 text-sm text-slate-400">
+              <img src={`data:${variationSource.mimeType};base64,${variationSource.data}`} alt="Variation source" className="h-12 w-12 object-cover rounded-md" />
+              <span className="flex-1">Variations of this image</span>
+              <button onClick={() => setVariationSource(null)} className="p-1 hover:text-slate-200" aria-label="Dismiss">
+                <X size={16} />
+              </button>
+            </div>
+          )}
           {isLoading && (
-            <div className="text-center">
+            <div className="flex-1 flex flex-col items-center justify-center text-center">
               <Loader2 className="h-12 w-12 animate-spin text-cyan-400 mx-auto" />
-              <p className="mt-4 text-gray-400">Generating your masterpiece...</p>
+              <p className="mt-4 text-gray-400">{variationSource ? 'Creating variations...' : 'Generating your masterpiece...'}</p>
             </div>
           )}
-          {!isLoading && generatedImage && (
-            <>
-              <img src={`data:image/jpeg;base64,${generatedImage}`} alt={prompt} className="max-w-full max-h-full object-contain rounded-md" />
-              <button
-                onClick={handleSave}
-                disabled={isSaving}
-                className="absolute bottom-4 right-4 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:bg-slate-800"
-              >
-                {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Save className="h-5 w-5" />}
-                Save Image
-              </button>
-            </>
+          {!isLoading && generatedImages.length > 0 && (
+            <div className={`grid gap-4 ${generatedImages.length > 1 ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`}>
+              {generatedImages.map((image, index) => (
+                <div key={index} className="group relative bg-slate-900 rounded-lg overflow-hidden flex items-center justify-center">
+                  <img src={`data:${image.mimeType};base64,${image.data}`} alt={`${resultPrompt} (${index + 1})`} className="max-w-full max-h-[70vh] object-contain" />
+                  <div className="absolute top-2 right-2 flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button onClick={() => handleSend(index, 'image-editor')} className="p-2 bg-slate-700/90 hover:bg-slate-600 text-white rounded-lg" aria-label="Edit this image" title="Edit">
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleSend(index, 'image-analyzer')} className="p-2 bg-slate-700/90 hover:bg-slate-600 text-white rounded-lg" aria-label="Analyze this image" title="Analyze">
+                      <Sparkles className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => handleUseAsReference(index)} className="p-2 bg-slate-700/90 hover:bg-slate-600 text-white rounded-lg" aria-label="Use as reference" title="Use as reference">
+                      <ImagePlus className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="absolute bottom-2 right-2 flex gap-2">
+                    <button
+                      onClick={() => handleVariations(index)}
+                      disabled={isLoading}
+                      className="bg-slate-700/90 hover:bg-slate-600 text-white text-sm font-semibold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors"
+                    >
+                      <Shuffle className="h-4 w-4" /> Variations
+                    </button>
+                    <button
+                      onClick={() => handleSave(index)}
+                      disabled={savingIndex !== null || index in savedIds}
+                      className="bg-slate-700/90 hover:bg-slate-600 text-white text-sm font-semibold py-2 px-3 rounded-lg flex items-center gap-2 transition-colors disabled:bg-slate-800"
+                    >
+                      {savingIndex === index ? <Loader2 className="h-4 w-4 animate-spin" /> : index in savedIds ? <Check className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+                      {index in savedIds ? 'Saved' : 'Save'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
           )}
-          {!isLoading && !generatedImage && (
-            <div className="text-center text-gray-500">
+          {!isLoading && !alternatives && generatedImages.length === 0 && (
+            <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-500">
               <Image size={64} className="mx-auto" />
-              <p className="mt-4">Your generated image will appear here.</p>
+              <p className="mt-4">Your generated images will appear here.</p>
             </div>
           )}
         </div>
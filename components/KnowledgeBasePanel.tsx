@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { BookOpen, Loader2, Trash2, UploadCloud, X, FileText } from 'lucide-react';
+import {
+  listKnowledgeDocuments,
+  ingestKnowledgeDocument,
+  deleteKnowledgeDocument,
+  KnowledgeDocument,
+  SUPPORTED_KNOWLEDGE_TYPES,
+} from '../services/knowledgeBase';
+
+interface KnowledgeBasePanelProps {
+  userId: string;
+  onClose: () => void;
+}
+
+const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({ userId, onClose }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [ingesting, setIngesting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setDocuments(await listKnowledgeDocuments(userId));
+    } catch (err: any) {
+      setError(`Failed to load knowledge base: ${err.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    setError(null);
+
+    for (const file of files) {
+      setIngesting(file.name);
+      try {
+        const document = await ingestKnowledgeDocument(userId, file);
+        setDocuments(prev => [document, ...prev]);
+      } catch (err: any) {
+        setError(`Failed to add "${file.name}": ${err.message}`);
+      }
+    }
+    setIngesting(null);
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!window.confirm(`Remove "${document.name}" from the knowledge base?`)) return;
+    try {
+      await deleteKnowledgeDocument(userId, document.id);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+    } catch (err: any) {
+      setError(`Failed to remove document: ${err.message}`);
+    }
+  };
+
+  return (
+    <aside className="w-72 flex-shrink-0 border-l border-slate-800 flex flex-col bg-slate-950/40">
+      <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2"><BookOpen size={18} /> Knowledge Base</h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-200" aria-label="Close knowledge base">
+          <X size={18} />
+        </button>
+      </div>
+      <div className="p-3 border-b border-slate-800">
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleUpload}
+          accept={SUPPORTED_KNOWLEDGE_TYPES}
+          multiple
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!!ingesting}
+          className="w-full flex items-center justify-center gap-2 py-2 px-3 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm transition-colors disabled:opacity-50"
+        >
+          {ingesting ? <Loader2 size={16} className="animate-spin" /> : <UploadCloud size={16} />}
+          {ingesting ? `Indexing ${ingesting}...` : 'Add documents'}
+        </button>
+        <p className="mt-2 text-xs text-slate-500">Text, Markdown and PDF files. Relevant passages are looked up for every message.</p>
+        {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {isLoading && (
+          <li className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-cyan-400" /></li>
+        )}
+        {!isLoading && documents.length === 0 && (
+          <li className="text-sm text-slate-500 text-center py-4">No documents yet.</li>
+        )}
+        {documents.map(document => (
+          <li key={document.id} className="group flex items-center gap-2 p-2 rounded-lg hover:bg-slate-800/50">
+            <FileText size={14} className="flex-shrink-0 text-slate-400" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" title={document.name}>{document.name}</p>
+              <p className="text-xs text-slate-500">{document.chunkCount} passages · {new Date(document.createdAt).toLocaleDateString()}</p>
+            </div>
+            <button
+              onClick={() => handleDelete(document)}
+              className="hidden group-hover:block p-1 text-slate-400 hover:text-red-400"
+              aria-label={`Remove ${document.name}`}
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default KnowledgeBasePanel;
@@ -0,0 +1,146 @@
+import React, { useState, useRef } from 'react';
+import { Brush, Eraser, Trash2 } from 'lucide-react';
+import { overlayToMask } from '../services/imageMask';
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  /** Called after every stroke with the mask as base64 PNG, or null when nothing is painted. */
+  onMaskChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+type Tool = 'brush' | 'eraser';
+
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, onMaskChange, disabled }) => {
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const updateMask = () => {
+    const mask = canvasRef.current ? overlayToMask(canvasRef.current) : null;
+    setHasMask(!!mask);
+    onMaskChange(mask);
+  };
+
+  // A new image starts with an empty mask at that image's resolution.
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+    onMaskChange(null);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    updateMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    updateMask();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative bg-slate-950/50 rounded-lg border border-slate-800 flex items-center justify-center p-2">
+        <div className="relative inline-block">
+          <img src={imageUrl} alt="Original" onLoad={handleImageLoad} className="block max-h-80 max-w-full object-contain rounded-md select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => setTool('brush')}
+          className={`p-2 rounded-md transition-colors ${tool === 'brush' ? 'bg-cyan-500 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+          aria-label="Brush"
+        >
+          <Brush size={16} />
+        </button>
+        <button
+          onClick={() => setTool('eraser')}
+          className={`p-2 rounded-md transition-colors ${tool === 'eraser' ? 'bg-cyan-500 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+          aria-label="Eraser"
+        >
+          <Eraser size={16} />
+        </button>
+        <label className="flex-1 flex items-center gap-2 text-slate-400">
+          <span className="whitespace-nowrap">Size</span>
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="flex-1 accent-cyan-500"
+          />
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={!hasMask}
+          className="p-2 rounded-md bg-slate-800 hover:bg-slate-700 disabled:opacity-40"
+          aria-label="Clear mask"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        {hasMask ? 'Only the painted area will be edited.' : 'Paint over the area to change, or leave it blank to edit the whole image.'}
+      </p>
+    </div>
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import type { ChatAttachment } from '../services/conversationService';
+
+interface MessageAttachmentsProps {
+  attachments: ChatAttachment[];
+}
+
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments }) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((attachment, index) => {
+        if (attachment.mimeType.startsWith('image/') && attachment.url) {
+          return (
+            <a key={index} href={attachment.url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                title={attachment.name}
+                className="h-24 w-24 object-cover rounded-lg border border-slate-700"
+              />
+            </a>
+          );
+        }
+        if (attachment.mimeType.startsWith('audio/') && attachment.url) {
+          return <audio key={index} src={attachment.url} controls className="max-w-full" title={attachment.name} />;
+        }
+        return (
+          <a
+            key={index}
+            href={attachment.url || undefined}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900/60 border border-slate-700 text-sm hover:border-cyan-500"
+          >
+            <FileText size={16} className="flex-shrink-0" />
+            <span className="truncate max-w-[12rem]">{attachment.name}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,300 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BookOpen, BookmarkPlus, Loader2, Trash2, ArrowLeft, Search } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import {
+  getPrompts,
+  savePrompt,
+  deletePrompt,
+  getPromptVariables,
+  fillPromptVariables,
+  SavedPrompt,
+  PromptFeature,
+} from '../services/promptLibrary';
+
+interface PromptLibraryPickerProps {
+  feature: PromptFeature;
+  /** The text currently in the prompt box, offered by "Save". */
+  prompt: string;
+  /** Replaces the prompt box's text with a prompt from the library. */
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+type PanelView = 'browse' | 'fill' | 'save';
+
+const featureLabels: Record<PromptFeature, string> = {
+  'image-generator': 'Image Generation',
+  'image-editor': 'Image Editor',
+  'image-analyzer': 'Image Analysis',
+  'complex-solver': 'Complex Task Solver',
+  'tts': 'Text to Speech',
+};
+
+const parseTags = (value: string): string[] => {
+  return [...new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+};
+
+/**
+ * "Library" and "Save" buttons for a prompt box. Library lists the user's saved prompts for
+ * the feature and asks for the values of any `{{variable}}` before inserting one.
+ */
+const PromptLibraryPicker: React.FC<PromptLibraryPickerProps> = ({ feature, prompt, onInsert, disabled }) => {
+  const [view, setView] = useState<PanelView | null>(null);
+  const [prompts, setPrompts] = useState<SavedPrompt[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SavedPrompt | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+  const [thisFeatureOnly, setThisFeatureOnly] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (view !== 'browse' || !user) return;
+    let cancelled = false;
+    getPrompts(user.id, feature)
+      .then(result => { if (!cancelled) setPrompts(result); })
+      .catch((err: any) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [view, user, feature]);
+
+  useEffect(() => {
+    if (!view) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setView(null);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setView(null);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [view]);
+
+  const open = (next: PanelView) => {
+    setError(null);
+    if (next === 'save') {
+      setTitle(prompt.trim().split('\n')[0].substring(0, 60));
+      setTags('');
+      setThisFeatureOnly(true);
+    }
+    setView(view === next ? null : next);
+  };
+
+  const handleChoose = (saved: SavedPrompt) => {
+    if (getPromptVariables(saved.body).length === 0) {
+      onInsert(saved.body);
+      setView(null);
+      return;
+    }
+    setSelected(saved);
+    setValues({});
+    setView('fill');
+  };
+
+  const handleInsert = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    onInsert(fillPromptVariables(selected.body, values));
+    setView(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !title.trim() || !prompt.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const saved = await savePrompt(user.id, {
+        title: title.trim(),
+        body: prompt,
+        tags: parseTags(tags),
+        feature: thisFeatureOnly ? feature : null,
+      });
+      setPrompts(prev => (prev ? [saved, ...prev] : prev));
+      setView(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async (saved: SavedPrompt) => {
+    if (!user || !window.confirm(`Delete "${saved.title}" from your prompt library?`)) return;
+    try {
+      await deletePrompt(user.id, saved.id);
+      setPrompts(prev => prev?.filter(other => other.id !== saved.id) ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const allTags = [...new Set((prompts ?? []).flatMap(saved => saved.tags))].sort();
+  const query = search.trim().toLowerCase();
+  const visiblePrompts = (prompts ?? []).filter(saved =>
+    (!tagFilter || saved.tags.includes(tagFilter)) &&
+    (!query || [saved.title, saved.body, ...saved.tags].some(text => text.toLowerCase().includes(query))),
+  );
+  const promptVariables = getPromptVariables(prompt);
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-1 text-xs">
+      <button
+        type="button"
+        onClick={() => open('browse')}
+        disabled={disabled}
+        className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors disabled:opacity-40 ${view === 'browse' || view === 'fill' ? 'bg-slate-700 text-cyan-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+      >
+        <BookOpen size={14} /> Library
+      </button>
+      <button
+        type="button"
+        onClick={() => open('save')}
+        disabled={disabled || !prompt.trim()}
+        className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors disabled:opacity-40 ${view === 'save' ? 'bg-slate-700 text-cyan-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+      >
+        <BookmarkPlus size={14} /> Save
+      </button>
+
+      {view && (
+        <div className="absolute right-0 top-full mt-1 z-30 w-80 max-h-96 flex flex-col bg-slate-900 border border-slate-700 rounded-lg shadow-xl text-sm">
+          {view === 'browse' && (
+            <>
+              <div className="p-2 border-b border-slate-800">
+                <div className="relative">
+                  <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+                  <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search prompts"
+                    autoFocus
+                    className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 pl-7 pr-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </div>
+                {allTags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {allTags.map(tag => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                        className={`px-2 py-0.5 rounded-full text-xs ${tagFilter === tag ? 'bg-cyan-500 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="overflow-y-auto">
+                {!prompts && !error && <Loader2 className="h-5 w-5 animate-spin text-slate-500 m-4" />}
+                {prompts && visiblePrompts.length === 0 && (
+                  <p className="p-4 text-slate-500">
+                    {prompts.length === 0 ? 'No saved prompts yet. Use "Save" to keep the current prompt.' : 'No prompts match.'}
+                  </p>
+                )}
+                <ul>
+                  {visiblePrompts.map(saved => (
+                    <li key={saved.id} className="group flex items-start gap-2 px-3 py-2 hover:bg-slate-800">
+                      <button type="button" onClick={() => handleChoose(saved)} className="flex-1 min-w-0 text-left">
+                        <p className="font-medium truncate">{saved.title}</p>
+                        <p className="text-xs text-slate-400 line-clamp-2">{saved.body}</p>
+                        <p className="text-xs text-slate-500 mt-0.5 truncate">
+                          {saved.feature ? featureLabels[saved.feature] : 'Any feature'}
+                          {saved.tags.length > 0 && ` · ${saved.tags.join(', ')}`}
+                        </p>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(saved)}
+                        className="p-1 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:text-red-400"
+                        aria-label={`Delete ${saved.title}`}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
+          {view === 'fill' && selected && (
+            <form onSubmit={handleInsert} className="flex flex-col gap-2 p-3 overflow-y-auto">
+              <button type="button" onClick={() => setView('browse')} className="self-start flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200">
+                <ArrowLeft size={12} /> Back
+              </button>
+              <p className="font-medium">{selected.title}</p>
+              {getPromptVariables(selected.body).map((name, index) => (
+                <label key={name} className="flex flex-col gap-1 text-xs text-slate-400">
+                  {name}
+                  <input
+                    value={values[name] ?? ''}
+                    onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    autoFocus={index === 0}
+                    className="bg-slate-800 border border-slate-700 rounded-md p-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                </label>
+              ))}
+              <p className="text-xs text-slate-500 whitespace-pre-wrap break-words">{fillPromptVariables(selected.body, values)}</p>
+              <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 rounded-md">
+                Insert
+              </button>
+            </form>
+          )}
+
+          {view === 'save' && (
+            <form onSubmit={handleSave} className="flex flex-col gap-2 p-3 overflow-y-auto">
+              <label className="flex flex-col gap-1 text-xs text-slate-400">
+                Title
+                <input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  autoFocus
+                  className="bg-slate-800 border border-slate-700 rounded-md p-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-400">
+                Tags (comma-separated)
+                <input
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="e.g., portrait, product"
+                  className="bg-slate-800 border border-slate-700 rounded-md p-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input type="checkbox" checked={thisFeatureOnly} onChange={(e) => setThisFeatureOnly(e.target.checked)} className="accent-cyan-500" />
+                Only show in {featureLabels[feature]}
+              </label>
+              <p className="text-xs text-slate-500">
+                {promptVariables.length > 0
+                  ? `Variables: ${promptVariables.join(', ')}`
+                  : 'Tip: write {{name}} in the prompt for a part to fill in each time.'}
+              </p>
+              <button
+                type="submit"
+                disabled={isBusy || !title.trim()}
+                className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 rounded-md disabled:bg-slate-600"
+              >
+                {isBusy && <Loader2 size={14} className="animate-spin" />} Save to Library
+              </button>
+            </form>
+          )}
+
+          {error && <p className="px-3 pb-3 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptLibraryPicker;
@@ -1,7 +1,8 @@
 
 import React, { useState, useCallback, useRef } from 'react';
 import { Volume2, Loader2, Play, Pause } from 'lucide-react';
-import { generateSpeech } from '../services/geminiService';
+import { generateSpeech, AIServiceError } from '../services/geminiService';
+import PromptLibraryPicker from './PromptLibraryPicker';
 
 // Audio decoding functions from Gemini documentation
 function decode(base64: string) {
@@ -78,8 +79,8 @@ const TextToSpeech: React.FC = () => {
       audioSourceRef.current = source;
       setIsPlaying(true);
 
-    } catch (err) {
-      setError("Failed to generate speech. Please try again.");
+    } catch (err: any) {
+      setError(err instanceof AIServiceError ? err.message : `Failed to play the generated speech: ${err.message}`);
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -108,7 +109,10 @@ const TextToSpeech: React.FC = () => {
                 <p className="mt-4 text-gray-400">Convert text into natural-sounding speech.</p>
             </div>
           <div>
-            <label htmlFor="tts-text" className="block text-sm font-medium text-gray-400 mb-2">Text to Speak</label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="tts-text" className="block text-sm font-medium text-gray-400">Text to Speak</label>
+              <PromptLibraryPicker feature="tts" prompt={text} onInsert={setText} />
+            </div>
             <textarea
               id="tts-text"
               rows={6}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Image, Link as LinkIcon, Volume2 } from 'lucide-react';
+import type { ToolDisplay } from '../services/chatTools';
+
+interface ToolResultCardProps {
+  display: ToolDisplay;
+}
+
+const ToolResultCard: React.FC<ToolResultCardProps> = ({ display }) => {
+  switch (display.kind) {
+    case 'image':
+      return (
+        <figure className="rounded-lg border border-slate-700 bg-slate-900/60 overflow-hidden">
+          <img src={display.url} alt={display.prompt} className="max-h-80 w-auto object-contain" />
+          <figcaption className="flex items-center gap-2 p-2 text-xs text-slate-400">
+            <Image size={14} className="flex-shrink-0" />
+            <span className="truncate" title={display.prompt}>{display.prompt}</span>
+          </figcaption>
+        </figure>
+      );
+    case 'sources':
+      return (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/60 p-3">
+          <p className="text-xs text-slate-400 mb-2">Searched the web for "{display.query}"</p>
+          {display.sources.length === 0 ? (
+            <p className="text-sm text-slate-500">No sources returned.</p>
+          ) : (
+            <ul className="space-y-1">
+              {display.sources.map((source, i) => (
+                <li key={i} className="flex items-center gap-2 text-sm">
+                  <LinkIcon size={14} className="flex-shrink-0 text-slate-500" />
+                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline truncate">
+                    {source.title || source.uri}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      );
+    case 'audio':
+      return (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/60 p-3">
+          <p className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+            <Volume2 size={14} /> Spoken reply
+          </p>
+          <audio src={display.url} controls autoPlay={display.autoPlay} className="w-full" />
+        </div>
+      );
+  }
+};
+
+export default ToolResultCard;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Plus, FileAudio, Mic, Pencil, Trash2, Check, X, Search } from 'lucide-react';
+import type { TranscriptSummary } from '../services/transcriptService';
+
+interface TranscriptHistoryProps {
+  transcripts: TranscriptSummary[];
+  activeId: string | null;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onSelect: (transcript: TranscriptSummary) => void;
+  onNew: () => void;
+  onRename: (transcript: TranscriptSummary, title: string) => void;
+  onDelete: (transcript: TranscriptSummary) => void;
+  /** Set while recording or transcribing, so the transcript in progress isn't replaced. */
+  disabled?: boolean;
+}
+
+/**
+ * Saved transcripts, newest first, with full-text search over titles and transcript text.
+ */
+const TranscriptHistory: React.FC<TranscriptHistoryProps> = ({ transcripts, activeId, search, onSearchChange, onSelect, onNew, onRename, onDelete, disabled }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (transcript: TranscriptSummary) => {
+    setEditingId(transcript.id);
+    setDraftTitle(transcript.title);
+  };
+
+  const commitRename = (transcript: TranscriptSummary) => {
+    const title = draftTitle.trim();
+    if (title && title !== transcript.title) {
+      onRename(transcript, title);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 border-r border-slate-800 flex flex-col bg-slate-950/40">
+      <div className="p-3 border-b border-slate-800 flex flex-col gap-2">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="flex items-center justify-center gap-2 py-2 px-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-semibold transition-colors disabled:opacity-50"
+        >
+          <Plus size={16} /> New transcript
+        </button>
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search transcripts"
+            className="w-full bg-slate-800 border border-slate-700 rounded-md py-1.5 pl-8 pr-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </div>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {transcripts.length === 0 && (
+          <li className="text-sm text-slate-500 text-center py-4">{search.trim() ? 'No matching transcripts.' : 'No saved transcripts yet.'}</li>
+        )}
+        {transcripts.map(transcript => (
+          <li key={transcript.id}>
+            {editingId === transcript.id ? (
+              <div className="flex items-center gap-1 p-1">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename(transcript);
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                />
+                <button onClick={() => commitRename(transcript)} className="p-1 text-slate-400 hover:text-green-400" aria-label="Save title">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-slate-200" aria-label="Cancel rename">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <div
+                onClick={() => !disabled && onSelect(transcript)}
+                className={`group flex items-center gap-2 p-2 rounded-lg transition-colors ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'} ${
+                  activeId === transcript.id ? 'bg-cyan-500/20 text-cyan-400' : 'text-slate-300 hover:bg-slate-800/50'
+                }`}
+              >
+                {transcript.engine === 'gemini' ? <FileAudio size={14} className="flex-shrink-0" /> : <Mic size={14} className="flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={transcript.title}>{transcript.title}</p>
+                  <p className="text-xs text-slate-500">{new Date(transcript.updated_at).toLocaleString()}</p>
+                </div>
+                <div className="hidden group-hover:flex items-center gap-1">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); startRename(transcript); }}
+                    className="p-1 text-slate-400 hover:text-slate-200"
+                    aria-label="Rename transcript"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(transcript); }}
+                    disabled={disabled}
+                    className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-40"
+                    aria-label="Delete transcript"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default TranscriptHistory;
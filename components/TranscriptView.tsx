@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Copy, Check, Download, Users, Pencil } from 'lucide-react';
+import type { TranscriptSegment } from '../services/geminiService';
+import { formatDuration } from '../services/audioFiles';
+import { formatTranscriptExport, getSpeakers, speakerName, SpeakerNames, TranscriptExportFormat } from '../services/transcriptExport';
+import { colorForLabel } from '../services/labelColors';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  speakerNames: SpeakerNames;
+  onRenameSpeaker: (speaker: string, name: string) => void;
+  /** Used for export file names. */
+  title: string;
+  /** Speech recognized but not final yet, shown after the segments. */
+  interimText?: string;
+  /** The segment being played, highlighted and kept in view. */
+  activeIndex?: number | null;
+  /** Plays a segment; segments aren't clickable without it. */
+  onPlaySegment?: (index: number) => void;
+  /** Shown in the toolbar, e.g. whether changes have been saved. */
+  status?: string;
+  /** Corrects a segment's text; the transcript can't be edited without it. */
+  onEditSegment?: (index: number, text: string) => void;
+}
+
+const FORMATS: { format: TranscriptExportFormat; label: string }[] = [
+  { format: 'srt', label: 'Subtitles (.srt)' },
+  { format: 'vtt', label: 'WebVTT (.vtt)' },
+  { format: 'txt', label: 'Plain text (.txt)' },
+  { format: 'json', label: 'JSON (.json)' },
+];
+
+/**
+ * A transcript as timed segments per speaker, with speaker renaming, text corrections, copy
+ * and export.
+ */
+const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, speakerNames, onRenameSpeaker, title, interimText, activeIndex, onPlaySegment, status, onEditSegment }) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const speakers = getSpeakers(segments);
+  const isEditable = isEditing && !!onEditSegment;
+
+  const handleCopy = () => {
+    const { content } = formatTranscriptExport(segments, speakerNames, title, 'txt');
+    navigator.clipboard.writeText(interimText ? `${content}${interimText}` : content);
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  const handleExport = (format: TranscriptExportFormat) => {
+    setIsExportOpen(false);
+    const { fileName, mimeType, content } = formatTranscriptExport(segments, speakerNames, title, format);
+
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full max-w-3xl flex flex-col min-h-[16rem] max-h-[28rem] bg-slate-950/50 rounded-lg border border-slate-800">
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-slate-800 text-sm">
+        <span className="flex-1 text-slate-400">
+          {segments.length > 0 ? `${segments.length} ${segments.length === 1 ? 'segment' : 'segments'} · ${speakers.length} ${speakers.length === 1 ? 'speaker' : 'speakers'}` : 'Transcript'}
+        </span>
+        {status && <span className="px-1 text-xs text-slate-500">{status}</span>}
+        <button
+          onClick={() => setShowSpeakers(prev => !prev)}
+          disabled={speakers.length === 0}
+          className={`p-2 rounded-md transition-colors disabled:opacity-40 ${showSpeakers ? 'bg-slate-800 text-cyan-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+          aria-label="Rename speakers"
+          title="Rename speakers"
+        >
+          <Users size={16} />
+        </button>
+        {onEditSegment && (
+          <button
+            onClick={() => setIsEditing(prev => !prev)}
+            disabled={segments.length === 0}
+            className={`p-2 rounded-md transition-colors disabled:opacity-40 ${isEditable ? 'bg-slate-800 text-cyan-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+            aria-label="Edit transcript"
+            title={isEditable ? 'Done editing' : 'Correct the transcript'}
+          >
+            <Pencil size={16} />
+          </button>
+        )}
+        <button
+          onClick={handleCopy}
+          disabled={segments.length === 0 && !interimText}
+          className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+          aria-label="Copy transcript"
+        >
+          {isCopied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
+        </button>
+        <div className="relative">
+          <button
+            onClick={() => setIsExportOpen(prev => !prev)}
+            disabled={segments.length === 0}
+            className="p-2 rounded-md text-slate-400 hover:bg-slate-800 hover:text-slate-200 disabled:opacity-40"
+            aria-label="Export transcript"
+          >
+            <Download size={16} />
+          </button>
+          {isExportOpen && (
+            <ul className="absolute right-0 mt-1 w-48 z-10 rounded-lg border border-slate-700 bg-slate-800 py-1 shadow-lg">
+              {FORMATS.map(({ format, label }) => (
+                <li key={format}>
+                  <button onClick={() => handleExport(format)} className="w-full text-left px-3 py-2 text-sm hover:bg-slate-700">
+                    {label}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {showSpeakers && speakers.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 px-3 py-2 border-b border-slate-800">
+          {speakers.map(speaker => (
+            <label key={speaker} className="flex items-center gap-2 text-xs text-slate-400">
+              <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: colorForLabel(speaker) }} />
+              <span className="w-20 flex-shrink-0 truncate">{speaker}</span>
+              <input
+                value={speakerNames[speaker] ?? ''}
+                onChange={(e) => onRenameSpeaker(speaker, e.target.value)}
+                placeholder="Name"
+                className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {segments.length === 0 && !interimText && (
+          <p className="p-2 text-sm text-gray-500">The transcript will appear here.</p>
+        )}
+        <ul className="flex flex-col gap-1">
+          {segments.map((segment, index) => {
+            const isActive = activeIndex === index;
+            const content = (
+              <>
+                <span className="flex items-center gap-2 text-xs">
+                  <span className="font-semibold" style={{ color: colorForLabel(segment.speaker) }}>
+                    {speakerName(segment.speaker, speakerNames)}
+                  </span>
+                  <span className="text-slate-500 tabular-nums">{formatDuration(segment.start)} – {formatDuration(segment.end)}</span>
+                </span>
+                {isEditable ? (
+                  <textarea
+                    value={segment.text}
+                    onChange={(e) => onEditSegment(index, e.target.value)}
+                    rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                    aria-label={`Text of segment ${index + 1}`}
+                    className="mt-1 w-full resize-y bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                ) : (
+                  <span className="block text-gray-300">{segment.text}</span>
+                )}
+              </>
+            );
+            return (
+              <li key={index} ref={isActive ? activeRef : undefined}>
+                {onPlaySegment && !isEditable ? (
+                  <button
+                    onClick={() => onPlaySegment(index)}
+                    className={`w-full text-left px-2 py-1.5 rounded-md transition-colors ${isActive ? 'bg-cyan-500/10 ring-1 ring-cyan-500/40' : 'hover:bg-slate-800'}`}
+                    title="Play this part"
+                  >
+                    {content}
+                  </button>
+                ) : (
+                  <div className="px-2 py-1.5">{content}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {interimText && <p className="px-2 py-1.5 text-gray-500">{interimText}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -0,0 +1,68 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useRef, ReactNode } from 'react';
+
+/** The features that can receive an image from another feature. */
+export type HandoffTarget = 'image-editor' | 'image-analyzer' | 'image-generator';
+
+export interface ImageHandoff {
+  image: File;
+  /** The prompt the image was made from, if known. */
+  prompt?: string;
+  /** The gallery id, when the image is a saved one, so work derived from it can link back. */
+  galleryId?: number;
+}
+
+interface ImageHandoffContextType {
+  pending: { target: HandoffTarget; handoff: ImageHandoff } | null;
+  sendImage: (target: HandoffTarget, handoff: ImageHandoff) => void;
+  clearPending: () => void;
+}
+
+const ImageHandoffContext = createContext<ImageHandoffContextType | undefined>(undefined);
+
+/**
+ * Holds an image on its way from one feature to another. `onNavigate` switches to the
+ * receiving feature, which picks the image up with `useIncomingImage`.
+ */
+export const ImageHandoffProvider: React.FC<{ onNavigate: (target: HandoffTarget) => void; children: ReactNode }> = ({ onNavigate, children }) => {
+  const [pending, setPending] = useState<ImageHandoffContextType['pending']>(null);
+
+  const sendImage = useCallback((target: HandoffTarget, handoff: ImageHandoff) => {
+    setPending({ target, handoff });
+    onNavigate(target);
+  }, [onNavigate]);
+
+  const clearPending = useCallback(() => setPending(null), []);
+
+  return (
+    <ImageHandoffContext.Provider value={{ pending, sendImage, clearPending }}>
+      {children}
+    </ImageHandoffContext.Provider>
+  );
+};
+
+const useImageHandoffContext = () => {
+  const context = useContext(ImageHandoffContext);
+  if (context === undefined) {
+    throw new Error('useImageHandoff must be used within an ImageHandoffProvider');
+  }
+  return context;
+};
+
+/** Returns the function that sends an image to another feature and switches to it. */
+export const useSendImage = () => useImageHandoffContext().sendImage;
+
+/**
+ * Calls `onReceive` with an image sent to `target`, once, then forgets it.
+ */
+export const useIncomingImage = (target: HandoffTarget, onReceive: (handoff: ImageHandoff) => void) => {
+  const { pending, clearPending } = useImageHandoffContext();
+  // Kept in a ref so a new callback each render doesn't count as a new handoff.
+  const onReceiveRef = useRef(onReceive);
+  onReceiveRef.current = onReceive;
+
+  useEffect(() => {
+    if (pending?.target !== target) return;
+    clearPending();
+    onReceiveRef.current(pending.handoff);
+  }, [pending, target, clearPending]);
+};
@@ -0,0 +1,67 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { createImageUrls, SignedImageUrl } from '../services/supabaseService';
+
+// URLs are re-signed this long before they expire, so an image never points at a dead link.
+export const URL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Signs gallery image URLs on demand. Requests made in the same tick are sent as one batch,
+ * and paths already being signed are not requested twice.
+ */
+export const useSignedUrls = () => {
+  const [urls, setUrls] = useState<Map<string, SignedImageUrl>>(() => new Map());
+  const queueRef = useRef<Set<string>>(new Set());
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const flushTimerRef = useRef<number | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      if (flushTimerRef.current !== null) window.clearTimeout(flushTimerRef.current);
+    };
+  }, []);
+
+  const flush = useCallback(async () => {
+    flushTimerRef.current = null;
+    const paths = [...queueRef.current];
+    queueRef.current.clear();
+    paths.forEach(path => inFlightRef.current.add(path));
+
+    try {
+      const signed = await createImageUrls(paths);
+      if (!mountedRef.current || signed.size === 0) return;
+      setUrls(prev => {
+        const next = new Map(prev);
+        signed.forEach((url, path) => next.set(path, url));
+        return next;
+      });
+    } catch (err) {
+      console.error(err);
+    } finally {
+      paths.forEach(path => inFlightRef.current.delete(path));
+    }
+  }, []);
+
+  /** Asks for a URL for `path`; it appears in `urls` once signed. */
+  const requestUrl = useCallback((path: string) => {
+    if (inFlightRef.current.has(path) || queueRef.current.has(path)) return;
+    queueRef.current.add(path);
+    if (flushTimerRef.current === null) {
+      flushTimerRef.current = window.setTimeout(flush, 0);
+    }
+  }, [flush]);
+
+  /** Forgets a URL, e.g. after deleting its image. */
+  const dropUrl = useCallback((path: string) => {
+    setUrls(prev => {
+      if (!prev.has(path)) return prev;
+      const next = new Map(prev);
+      next.delete(path);
+      return next;
+    });
+  }, []);
+
+  return { urls, requestUrl, dropUrl };
+};
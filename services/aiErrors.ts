@@ -0,0 +1,145 @@
+import { ApiError } from "@google/genai";
+
+// Errors surfaced by geminiService. Providers throw whatever their SDK throws (or an
+// AIServiceError when they can tell the kind themselves); geminiService classifies the rest.
+
+export type AIErrorKind = 'rate-limit' | 'safety' | 'invalid-input' | 'auth' | 'network' | 'server' | 'unknown';
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['rate-limit', 'network', 'server'];
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+export class AIServiceError extends Error {
+    readonly kind: AIErrorKind;
+    /** The HTTP status of the failed request, when there was one. */
+    readonly status?: number;
+    /** How long the API asked us to wait before retrying. */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AIServiceError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+const describe = (kind: AIErrorKind, retryAfterMs?: number): string => {
+    switch (kind) {
+        case 'rate-limit':
+            return retryAfterMs
+                ? `the API rate limit or quota was reached. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds, or check your plan's quota.`
+                : "the API rate limit or quota was reached. Wait a minute before trying again, or check your plan's quota.";
+        case 'safety':
+            return "the request or response was blocked by the safety filters. Rephrase the prompt or use a different input.";
+        case 'invalid-input':
+            return "the request was rejected as invalid. Check the prompt and any attached files (type and size) and try again.";
+        case 'auth':
+            return "the API key is missing or was rejected. Check GEMINI_API_KEY in .env.local.";
+        case 'network':
+            return "the AI service could not be reached. Check your internet connection and try again.";
+        case 'server':
+            return "the AI service is unavailable or overloaded right now. Try again in a few minutes.";
+        case 'unknown':
+            return "an unexpected error occurred.";
+    }
+};
+
+/** Reads the retry delay Google APIs put in 429 responses, e.g. `"retryDelay": "17s"`. */
+const parseRetryAfter = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const classify = (error: unknown): { kind: AIErrorKind; status?: number; retryAfterMs?: number } => {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = error instanceof ApiError ? error.status : undefined;
+
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return { kind: 'rate-limit', status, retryAfterMs: parseRetryAfter(message) };
+    }
+    if (status === 401 || status === 403 || /API key|API_KEY/i.test(message)) {
+        return { kind: 'auth', status };
+    }
+    if (status === 400 || status === 404 || status === 413) {
+        return { kind: 'invalid-input', status };
+    }
+    if (status !== undefined && status >= 500) {
+        return { kind: 'server', status };
+    }
+    if (error instanceof TypeError || /network|fetch|ECONNRESET|ETIMEDOUT|offline/i.test(message) || !navigator.onLine) {
+        return { kind: 'network', status };
+    }
+    return { kind: 'unknown', status };
+};
+
+/**
+ * Wraps any error from a provider call in an AIServiceError with an actionable message.
+ * @param error The caught error.
+ * @param action What failed, e.g. "Failed to generate image"; the reason is appended.
+ */
+export const toAIServiceError = (error: unknown, action: string): AIServiceError => {
+    if (error instanceof AIServiceError) {
+        return new AIServiceError(error.kind, `${action}: ${describe(error.kind, error.retryAfterMs)}`, {
+            status: error.status,
+            retryAfterMs: error.retryAfterMs,
+            cause: error.cause ?? error,
+        });
+    }
+    const { kind, status, retryAfterMs } = classify(error);
+    return new AIServiceError(kind, `${action}: ${describe(kind, retryAfterMs)}`, { status, retryAfterMs, cause: error });
+};
+
+/**
+ * How long to wait before the next attempt: exponential backoff with full jitter, but never
+ * less than the delay the API asked for.
+ */
+export const getRetryDelay = (attempt: number, error: AIServiceError): number => {
+    const backoff = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+    return Math.max(backoff, error.retryAfterMs ?? 0);
+};
+
+export const shouldRetry = (attempt: number, error: AIServiceError): boolean =>
+    error.retryable && attempt + 1 < MAX_ATTEMPTS && (error.retryAfterMs ?? 0) <= MAX_DELAY_MS;
+
+export const waitForRetry = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+};
+
+/**
+ * Runs a provider call, retrying transient failures (rate limits, network and server errors).
+ * Rethrows the last error as is; callers turn it into an AIServiceError with their own wording.
+ * @param operation The call to make; invoked once per attempt.
+ * @param signal Stops retrying when aborted; an abort during the wait rethrows the last error.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            const serviceError = toAIServiceError(error, 'AI request failed');
+            if (!shouldRetry(attempt, serviceError) || signal?.aborted) {
+                throw error;
+            }
+            const delay = getRetryDelay(attempt, serviceError);
+            console.warn(`AI request failed (${serviceError.kind}); retrying in ${Math.round(delay)} ms.`);
+            await waitForRetry(delay, signal);
+            if (signal?.aborted) {
+                throw error;
+            }
+        }
+    }
+};
@@ -0,0 +1,162 @@
+import type { FunctionCall, FunctionDeclaration, FunctionResponse, GroundingChunk } from "@google/genai";
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+// The app talks to its AI backend only through this interface. `geminiService` wraps it with
+// the prompts and error handling the UI relies on; providers only translate requests.
+
+export interface ChatHistoryContent {
+    role: 'user' | 'model';
+    /** Files a message was sent with come before its text, as they did when it was sent. */
+    parts: ({ text: string } | { inlineData: InlineData })[];
+}
+
+/** Base64-encoded file contents, as sent inline with a request. */
+export interface InlineData {
+    mimeType: string;
+    data: string;
+}
+
+export interface ChatStreamChunk {
+    text: string;
+    functionCalls: FunctionCall[];
+    /** Prompt plus reply tokens, as reported by the API for the request so far. */
+    totalTokens?: number;
+}
+
+export type ChatInput =
+    | { text: string; files?: InlineData[] }
+    | { functionResponses: FunctionResponse[] };
+
+export interface ChatOptions {
+    systemInstruction?: string;
+    history?: ChatHistoryContent[];
+    functionDeclarations?: FunctionDeclaration[];
+}
+
+/**
+ * A stateful chat: each exchange is appended to the history sent with the next one.
+ */
+export interface ChatSession {
+    /** Sends a message and yields the reply as it streams in. Aborting `signal` cancels the request. */
+    sendMessageStream(input: ChatInput, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk>;
+}
+
+export interface TextOptions {
+    /** Use the slower model with extended thinking, for hard problems. */
+    reasoning?: boolean;
+    /** Files sent before the prompt. */
+    files?: InlineData[];
+}
+
+export type PersonGeneration = 'dont_allow' | 'allow_adult' | 'allow_all';
+
+export interface ImageGenerationOptions {
+    aspectRatio: string;
+    /** 1 to 4. */
+    numberOfImages: number;
+    // No negative prompt, seed or watermark setting: the Gemini API (unlike Vertex AI) rejects them.
+    /** Whether people may appear in the images. */
+    personGeneration?: PersonGeneration;
+}
+
+/** A box around something found in an image, in fractions (0–1) of the image's size. */
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface DetectedObject {
+    label: string;
+    /** 0 to 1. */
+    confidence: number;
+    box: BoundingBox;
+}
+
+/** A stretch of speech by one speaker. Times are in seconds from the start of the audio. */
+export interface TranscriptSegment {
+    start: number;
+    end: number;
+    /** "Speaker 1", "Speaker 2" and so on, in order of first appearance. */
+    speaker: string;
+    text: string;
+}
+
+export interface TranscriptionRequest {
+    /** A BCP 47 tag such as "en-US"; detected from the audio when omitted. */
+    language?: string;
+    /**
+     * The end of the transcript of the audio just before this one, so the same voices keep the
+     * same speaker labels across parts.
+     */
+    previousSegments?: TranscriptSegment[];
+}
+
+export type SearchTool = 'googleSearch' | 'googleMaps';
+
+export interface GroundedResult {
+    text: string;
+    chunks: GroundingChunk[];
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+export interface AIProvider {
+    readonly id: ProviderName;
+    /** Shown in the UI. */
+    readonly name: string;
+    /** Recorded in conversation exports. */
+    readonly chatModel: string;
+    /** Recorded with saved images. */
+    readonly imageModel: string;
+    readonly imageEditModel: string;
+    createChat(options: ChatOptions): ChatSession;
+    generateText(prompt: string, options?: TextOptions): Promise<string>;
+    /** Rewrites a short image prompt into `count` more detailed alternatives. */
+    enhanceImagePrompt(prompt: string, count: number): Promise<string[]>;
+    embedTexts(texts: string[], taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY'): Promise<number[][]>;
+    /** Returns base64-encoded JPEG data, one entry per image. */
+    /** Aborting `signal` cancels the request, here and in the other methods that take one. */
+    generateImages(prompt: string, options: ImageGenerationOptions, signal?: AbortSignal): Promise<string[]>;
+    /**
+     * Returns the edited image in whatever format the model produced. With a mask
+     * (white = editable, black = keep), only the masked region should change.
+     */
+    editImage(prompt: string, image: InlineData, mask?: InlineData): Promise<InlineData>;
+    analyzeImage(prompt: string, image: InlineData): Promise<string>;
+    /** @param focus What to look for; everything prominent when omitted. */
+    detectObjects(image: InlineData, focus?: string): Promise<DetectedObject[]>;
+    groundedSearch(query: string, tool: SearchTool, location?: { latitude: number; longitude: number }, signal?: AbortSignal): Promise<GroundedResult>;
+    /** Returns base64-encoded 16-bit mono PCM at 24 kHz. */
+    generateSpeech(text: string, signal?: AbortSignal): Promise<string>;
+    /** Transcribes the speech in a short recording, split by speaker and timed from its start. */
+    transcribeAudio(audio: InlineData, request?: TranscriptionRequest): Promise<TranscriptSegment[]>;
+}
+
+/**
+ * Picks the provider from the AI_PROVIDER setting. Without one, Gemini is used when an
+ * API key is configured and the offline mock otherwise, so the app always starts.
+ */
+const resolveProviderName = (): ProviderName => {
+    const configured = process.env.AI_PROVIDER;
+    if (configured === 'gemini' || configured === 'mock') return configured;
+    if (configured) {
+        console.warn(`Unknown AI_PROVIDER "${configured}"; falling back to the default.`);
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+let provider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+    if (!provider) {
+        const name = resolveProviderName();
+        if (name === 'mock') {
+            console.warn("Using the offline mock AI provider. Set GEMINI_API_KEY to use Gemini.");
+        }
+        provider = name === 'gemini' ? createGeminiProvider(process.env.API_KEY) : createMockProvider();
+    }
+    return provider;
+};
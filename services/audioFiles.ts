@@ -0,0 +1,123 @@
+// Prepares recorded or uploaded audio for transcription: decodes any format the browser can
+// play, downmixes it to 16 kHz mono and cuts it into WAV chunks small enough for one request.
+
+/** Speech needs no more than this; it keeps chunks small. */
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+/** The longest stretch of audio sent in one request. */
+export const MAX_CHUNK_SECONDS = 180;
+
+// Chunks are cut at the quietest moment in the last few seconds before the limit, so words
+// are rarely split between two chunks.
+const SPLIT_SEARCH_SECONDS = 8;
+const SPLIT_WINDOW_SECONDS = 0.05;
+
+export interface AudioChunk {
+  /** Position of the chunk in the whole recording, in seconds. */
+  start: number;
+  end: number;
+  /** A view into the decoded audio; encoded only when the chunk is sent. */
+  samples: Float32Array;
+}
+
+/**
+ * Decodes an audio file into mono samples at the transcription sample rate.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<Float32Array> => {
+  // Decoding through a context at the target rate resamples as part of the decode.
+  const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      mono[i] += samples[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Encodes a chunk as a base64 16-bit PCM WAV file.
+ */
+export const encodeWavChunk = ({ samples }: AudioChunk): string => {
+  const sampleRate = TRANSCRIPTION_SAMPLE_RATE;
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const findQuietestPoint = (samples: Float32Array, from: number, to: number): number => {
+  const windowLength = Math.round(SPLIT_WINDOW_SECONDS * TRANSCRIPTION_SAMPLE_RATE);
+  let best = to;
+  let bestEnergy = Infinity;
+  for (let start = from; start + windowLength <= to; start += windowLength) {
+    let energy = 0;
+    for (let i = start; i < start + windowLength; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = start + Math.round(windowLength / 2);
+    }
+  }
+  return best;
+};
+
+/**
+ * Cuts decoded audio into chunks of at most `MAX_CHUNK_SECONDS`.
+ */
+export const splitAudio = (samples: Float32Array): AudioChunk[] => {
+  const maxLength = MAX_CHUNK_SECONDS * TRANSCRIPTION_SAMPLE_RATE;
+  const searchLength = SPLIT_SEARCH_SECONDS * TRANSCRIPTION_SAMPLE_RATE;
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  while (start < samples.length) {
+    const end = samples.length - start <= maxLength
+      ? samples.length
+      : findQuietestPoint(samples, start + maxLength - searchLength, start + maxLength);
+    chunks.push({
+      start: start / TRANSCRIPTION_SAMPLE_RATE,
+      end: end / TRANSCRIPTION_SAMPLE_RATE,
+      samples: samples.subarray(start, end),
+    });
+    start = end;
+  }
+  return chunks;
+};
+
+/**
+ * Formats a duration in seconds as m:ss, or h:mm:ss from an hour up.
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
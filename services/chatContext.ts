@@ -0,0 +1,70 @@
+import type { ChatHistoryContent, InlineData } from './geminiService';
+
+// Budget for the verbatim history replayed to the model. Once the unsummarized
+// turns grow past it, the older ones are folded into the conversation summary
+// and only roughly RECENT_TOKEN_TARGET worth of recent turns are kept verbatim.
+export const HISTORY_TOKEN_BUDGET = 24000;
+export const RECENT_TOKEN_TARGET = 6000;
+
+export interface ContextMessage {
+  sender: 'user' | 'bot';
+  text: string;
+  attachments?: { name: string }[];
+  /** The attachments' contents, when they have been loaded to replay. */
+  files?: InlineData[];
+}
+
+/**
+ * Rough token estimate (about four characters per token) used between API-reported counts.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimateHistoryTokens = (messages: ContextMessage[]): number =>
+  messages.reduce((sum, msg) => sum + estimateTokens(msg.text) + 4, 0);
+
+/**
+ * Formats stored messages as Gemini chat history.
+ * Attachments are replayed with their contents when `files` is loaded, otherwise only by name.
+ */
+export const formatHistory = (messages: ContextMessage[]): ChatHistoryContent[] =>
+  messages.map(msg => ({
+    role: msg.sender === 'user' ? 'user' : 'model',
+    parts: msg.files && msg.files.length > 0
+      ? [...msg.files.map(inlineData => ({ inlineData })), { text: msg.text }]
+      : [{
+        text: msg.attachments && msg.attachments.length > 0
+          ? `${msg.text}\n\n[Attached: ${msg.attachments.map(a => a.name).join(', ')}]`
+          : msg.text,
+      }],
+  }));
+
+/**
+ * Splits messages into older ones to summarize and recent ones to keep verbatim.
+ * The split always lands on a user message so the kept history starts with a user turn.
+ */
+export const splitForSummary = <T extends ContextMessage>(messages: T[]): { older: T[]; recent: T[] } => {
+  let splitAt = messages.length;
+  let recentTokens = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    recentTokens += estimateTokens(messages[i].text) + 4;
+    if (recentTokens > RECENT_TOKEN_TARGET) break;
+    if (messages[i].sender === 'user') splitAt = i;
+  }
+
+  // Keep at least the latest exchange verbatim, even if it alone exceeds the target.
+  if (splitAt === messages.length) {
+    const lastUser = messages.map(msg => msg.sender).lastIndexOf('user');
+    splitAt = lastUser === -1 ? messages.length : lastUser;
+  }
+
+  return { older: messages.slice(0, splitAt), recent: messages.slice(splitAt) };
+};
+
+/**
+ * Appends the running conversation summary to the base system instruction.
+ */
+export const buildSystemInstruction = (base: string, summary: string): string =>
+  summary
+    ? `${base}\n\nSummary of the earlier part of this conversation (older turns are not repeated below):\n${summary}`
+    : base;
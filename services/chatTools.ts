@@ -0,0 +1,160 @@
+import { Type, FunctionDeclaration } from "@google/genai";
+import { generateImage, performGroundedSearch, generateSpeech } from './geminiService';
+import { base64ToFile, extensionForMimeType } from './imageFiles';
+
+// What the Chatbot renders inline for a tool call.
+export type ToolDisplay =
+    | { kind: 'image'; url: string; prompt: string }
+    | { kind: 'sources'; query: string; sources: { uri: string; title: string }[] }
+    // Only fresh speech plays by itself; replies reloaded from history wait for the user.
+    | { kind: 'audio'; url: string; text: string; autoPlay?: boolean };
+
+export interface ChatToolResult {
+    /** Sent back to the model as the function response. */
+    response: Record<string, unknown>;
+    /** Shown to the user in the conversation. */
+    display: ToolDisplay;
+    /** Optional artifact stored alongside the reply so it survives a reload. */
+    file?: File;
+}
+
+export interface ChatTool {
+    declaration: FunctionDeclaration;
+    /** Tools should pass `signal` on to the requests they make, so Stop cancels them. */
+    run: (args: Record<string, unknown>, signal?: AbortSignal) => Promise<ChatToolResult>;
+}
+
+const registry = new Map<string, ChatTool>();
+
+/**
+ * Makes a tool available to the chat model. Registering a name twice replaces the earlier tool.
+ */
+export const registerChatTool = (tool: ChatTool) => {
+    if (!tool.declaration.name) {
+        throw new Error("Chat tools must have a name.");
+    }
+    registry.set(tool.declaration.name, tool);
+};
+
+export const getChatToolDeclarations = (): FunctionDeclaration[] =>
+    Array.from(registry.values()).map(tool => tool.declaration);
+
+/**
+ * Runs a tool by name. Aborting `signal` cancels the tool's requests and rejects right away,
+ * with the signal's reason, even if a tool doesn't support cancelling.
+ */
+export const runChatTool = async (name: string, args: Record<string, unknown> = {}, signal?: AbortSignal): Promise<ChatToolResult> => {
+    const tool = registry.get(name);
+    if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+    signal?.throwIfAborted();
+    if (!signal) return tool.run(args);
+    return new Promise<ChatToolResult>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        tool.run(args, signal).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+// Wraps the raw 16-bit mono PCM returned by the TTS model in a WAV header so <audio> can play it.
+const pcmToWavFile = (base64Pcm: string, fileName: string, sampleRate = 24000): File => {
+    const pcm = base64ToFile(base64Pcm, fileName, 'audio/pcm');
+    const header = new DataView(new ArrayBuffer(44));
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    header.setUint32(4, 36 + pcm.size, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // mono
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeString(36, 'data');
+    header.setUint32(40, pcm.size, true);
+    return new File([header.buffer, pcm], fileName, { type: 'audio/wav' });
+};
+
+// --- Built-in tools ---
+
+registerChatTool({
+    declaration: {
+        name: 'generate_image',
+        description: 'Generates an image from a text description and shows it to the user.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                prompt: { type: Type.STRING, description: 'A detailed description of the image to generate.' },
+                aspect_ratio: {
+                    type: Type.STRING,
+                    enum: ['1:1', '16:9', '9:16', '4:3', '3:4'],
+                    description: 'The aspect ratio of the image. Defaults to 1:1.',
+                },
+            },
+            required: ['prompt'],
+        },
+    },
+    run: async (args, signal) => {
+        const prompt = String(args.prompt ?? '');
+        const image = await generateImage(prompt, String(args.aspect_ratio ?? '1:1'), signal);
+        const file = base64ToFile(image.data, `generated-image.${extensionForMimeType(image.mimeType)}`, image.mimeType);
+        return {
+            response: { status: 'Image generated and shown to the user.' },
+            display: { kind: 'image', url: URL.createObjectURL(file), prompt },
+            file,
+        };
+    },
+});
+
+registerChatTool({
+    declaration: {
+        name: 'search_web',
+        description: 'Searches the web with Google for current information. Returns an answer with its sources.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                query: { type: Type.STRING, description: 'The search query.' },
+            },
+            required: ['query'],
+        },
+    },
+    run: async (args, signal) => {
+        const query = String(args.query ?? '');
+        const { text, chunks } = await performGroundedSearch(query, 'googleSearch', undefined, signal);
+        const sources = chunks
+            .map(chunk => ({ uri: chunk.web?.uri ?? '', title: chunk.web?.title ?? chunk.web?.uri ?? '' }))
+            .filter(source => source.uri);
+        return {
+            response: { answer: text, sources },
+            display: { kind: 'sources', query, sources },
+        };
+    },
+});
+
+registerChatTool({
+    declaration: {
+        name: 'speak',
+        description: 'Reads the given text aloud to the user with a natural-sounding voice.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                text: { type: Type.STRING, description: 'The text to speak.' },
+            },
+            required: ['text'],
+        },
+    },
+    run: async (args, signal) => {
+        const text = String(args.text ?? '');
+        const file = pcmToWavFile(await generateSpeech(text, signal), 'speech.wav');
+        return {
+            response: { status: 'Audio generated and shown to the user.' },
+            display: { kind: 'audio', url: URL.createObjectURL(file), text, autoPlay: true },
+            file,
+        };
+    },
+});
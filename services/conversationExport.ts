@@ -0,0 +1,193 @@
+import { getAIProvider } from './aiProvider';
+
+// Conversations are exported one branch at a time: the path of messages currently on screen.
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportedMessage {
+  sender: 'user' | 'bot';
+  text: string;
+  createdAt: string;
+  /** File names only; the files themselves stay in storage. */
+  attachments: string[];
+}
+
+export interface ConversationExport {
+  format: 'eburon-conversation';
+  version: 1;
+  title: string;
+  model: string;
+  createdAt: string;
+  exportedAt: string;
+  messages: ExportedMessage[];
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+interface ExportSource {
+  sender: 'user' | 'bot';
+  text: string;
+  createdAt: string;
+  attachments: { name: string }[];
+}
+
+const SENDER_LABELS = { user: 'You', bot: 'EBURON' };
+
+/**
+ * Collects a conversation branch into the structure shared by every export format.
+ * @param title The conversation title.
+ * @param createdAt When the conversation was started.
+ * @param messages The messages of the branch, oldest first.
+ */
+export const buildConversationExport = (title: string, createdAt: string, messages: ExportSource[]): ConversationExport => ({
+  format: 'eburon-conversation',
+  version: 1,
+  title,
+  model: getAIProvider().chatModel,
+  createdAt,
+  exportedAt: new Date().toISOString(),
+  messages: messages.map(msg => ({
+    sender: msg.sender,
+    text: msg.text,
+    createdAt: msg.createdAt,
+    attachments: msg.attachments.map(a => a.name),
+  })),
+});
+
+const toMarkdown = (data: ConversationExport): string => {
+  const header = `# ${data.title}\n\n_Exported ${new Date(data.exportedAt).toLocaleString()} · model ${data.model}_\n`;
+  const body = data.messages.map(msg => {
+    const attachments = msg.attachments.length > 0 ? `\n\n_Attachments: ${msg.attachments.join(', ')}_` : '';
+    // Message text is already Markdown, so it is copied verbatim to keep code blocks intact.
+    return `## ${SENDER_LABELS[msg.sender]} · ${new Date(msg.createdAt).toLocaleString()}\n\n${msg.text}${attachments}\n`;
+  });
+  return [header, ...body].join('\n---\n\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Renders message text as HTML, turning fenced code blocks into <pre> and keeping other line breaks.
+ */
+const renderMessageHtml = (text: string): string =>
+  text
+    .split(/^```/m)
+    .map((part, i) => {
+      if (i % 2 === 0) {
+        return part.trim() ? `<p>${escapeHtml(part.trim())}</p>` : '';
+      }
+      const newline = part.indexOf('\n');
+      const language = newline >= 0 ? part.slice(0, newline).trim() : '';
+      const code = newline >= 0 ? part.slice(newline + 1) : part;
+      const languageAttr = language ? ` data-language="${escapeHtml(language)}"` : '';
+      return `<pre${languageAttr}><code>${escapeHtml(code.replace(/\n$/, ''))}</code></pre>`;
+    })
+    .join('\n');
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.875rem; margin-bottom: 2rem; }
+  .message { border-radius: 1rem; padding: 0.75rem 1rem; margin-bottom: 1rem; }
+  .user { background: #4f46e5; margin-left: 4rem; }
+  .bot { background: #1e293b; margin-right: 4rem; }
+  .sender { font-size: 0.75rem; color: #cbd5e1; margin-bottom: 0.5rem; }
+  p { white-space: pre-wrap; margin: 0.5rem 0; }
+  pre { background: #020617; border-radius: 0.5rem; padding: 0.75rem; overflow-x: auto; }
+  .attachments { font-size: 0.75rem; color: #94a3b8; font-style: italic; }
+`;
+
+const toHtml = (data: ConversationExport): string => {
+  const messages = data.messages.map(msg => `
+  <div class="message ${msg.sender}">
+    <div class="sender">${SENDER_LABELS[msg.sender]} · ${escapeHtml(new Date(msg.createdAt).toLocaleString())}</div>
+    ${renderMessageHtml(msg.text)}
+    ${msg.attachments.length > 0 ? `<div class="attachments">Attachments: ${escapeHtml(msg.attachments.join(', '))}</div>` : ''}
+  </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(data.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(data.title)}</h1>
+  <div class="meta">Exported ${escapeHtml(new Date(data.exportedAt).toLocaleString())} · model ${escapeHtml(data.model)}</div>${messages}
+</body>
+</html>
+`;
+};
+
+/**
+ * Serializes an export in the given format, with a file name derived from the title.
+ */
+export const formatConversationExport = (data: ConversationExport, format: ExportFormat): ExportFile => {
+  const baseName = data.title.substring(0, 50).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'conversation';
+  switch (format) {
+    case 'markdown':
+      return { fileName: `${baseName}.md`, mimeType: 'text/markdown', content: toMarkdown(data) };
+    case 'json':
+      return { fileName: `${baseName}.json`, mimeType: 'application/json', content: JSON.stringify(data, null, 2) };
+    case 'html':
+      return { fileName: `${baseName}.html`, mimeType: 'text/html', content: toHtml(data) };
+  }
+};
+
+/**
+ * Parses and validates a JSON export.
+ * @param json The contents of a file produced by the JSON export.
+ */
+export const parseConversationExport = (json: string): ConversationExport => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (data?.format !== 'eburon-conversation' || !Array.isArray(data.messages)) {
+    throw new Error("The file is not a conversation export.");
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported export version: ${data.version}`);
+  }
+
+  const importedAt = new Date().toISOString();
+  const messages: ExportedMessage[] = data.messages.map((msg: any, i: number) => {
+    if ((msg?.sender !== 'user' && msg?.sender !== 'bot') || typeof msg.text !== 'string') {
+      throw new Error(`Message ${i + 1} is malformed.`);
+    }
+    const createdAt = typeof msg.createdAt === 'string' && !isNaN(Date.parse(msg.createdAt)) ? msg.createdAt : importedAt;
+    return {
+      sender: msg.sender,
+      text: msg.text,
+      createdAt,
+      attachments: Array.isArray(msg.attachments) ? msg.attachments.filter((a: unknown) => typeof a === 'string') : [],
+    };
+  });
+  if (messages.length === 0) {
+    throw new Error("The export does not contain any messages.");
+  }
+
+  return {
+    format: 'eburon-conversation',
+    version: 1,
+    title: typeof data.title === 'string' && data.title.trim() ? data.title : 'Imported conversation',
+    model: typeof data.model === 'string' ? data.model : getAIProvider().chatModel,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : messages[0].createdAt,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : importedAt,
+    messages,
+  };
+};
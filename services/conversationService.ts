@@ -0,0 +1,381 @@
+import { supabase } from './supabaseClient';
+import type { RetrievedPassage } from './knowledgeBase';
+import type { ToolDisplay } from './chatTools';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  summary: string;
+  summary_through_message_id: string | null;
+}
+
+export interface StoredAttachment {
+  path: string;
+  name: string;
+  mime_type: string;
+  size: number;
+}
+
+export interface StoredPassage {
+  document_name: string;
+  chunk_id: string;
+  score: number;
+  text: string;
+}
+
+/** A tool result as saved; generated files are referenced by their attachment's storage path. */
+export type StoredToolResult =
+  | Extract<ToolDisplay, { kind: 'sources' }>
+  | { kind: 'image'; prompt: string; path: string }
+  | { kind: 'audio'; text: string; path: string };
+
+export interface StoredChatMessage {
+  id: string;
+  parentId: string | null;
+  sender: 'user' | 'bot';
+  text: string;
+  attachments?: StoredAttachment[];
+  /** The knowledge base passages a reply was grounded in, in citation order. */
+  passages?: RetrievedPassage[];
+  toolResults?: StoredToolResult[];
+  /** Defaults to the time of the insert; set when restoring messages from an export. */
+  createdAt?: string;
+}
+
+export interface ChatAttachment {
+  name: string;
+  mimeType: string;
+  url: string;
+  /** Set once the file is in storage, so branches can reuse it without uploading again. */
+  path?: string;
+  size?: number;
+}
+
+export interface LoadedChatMessage {
+  id: string;
+  parentId: string | null;
+  sender: 'user' | 'bot';
+  text: string;
+  attachments: ChatAttachment[];
+  passages: RetrievedPassage[];
+  toolResults: ToolDisplay[];
+  createdAt: string;
+}
+
+interface ChatHistoryRow {
+  message_id: string;
+  parent_message_id: string | null;
+  sender: 'user' | 'bot';
+  text: string;
+  attachments: StoredAttachment[] | null;
+  passages: StoredPassage[] | null;
+  tool_results: StoredToolResult[] | null;
+  created_at: string;
+}
+
+const ATTACHMENT_BUCKET = 'chat_attachments';
+const CONVERSATION_COLUMNS = 'id, title, created_at, updated_at, summary, summary_through_message_id';
+
+/**
+ * Fetches the user's conversations, most recently active first.
+ * @param userId The ID of the authenticated user.
+ */
+export const getConversations = async (userId: string): Promise<Conversation[]> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch conversations: ${error.message}`);
+  }
+  return data ?? [];
+};
+
+/**
+ * Creates a new, empty conversation.
+ * @param userId The ID of the authenticated user.
+ * @param title The initial title; replaced later by the generated one.
+ */
+export const createConversation = async (userId: string, title: string = 'New conversation'): Promise<Conversation> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ user_id: userId, title })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create conversation: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Creates a conversation from previously exported messages, chained in order as a single branch.
+ * @param userId The ID of the authenticated user.
+ * @param title The conversation title.
+ * @param messages The messages to restore, oldest first.
+ */
+export const importConversation = async (
+  userId: string,
+  title: string,
+  messages: { sender: 'user' | 'bot'; text: string; createdAt: string }[],
+): Promise<Conversation> => {
+  const conversation = await createConversation(userId, title);
+
+  let parentId: string | null = null;
+  const stored: StoredChatMessage[] = messages.map(msg => {
+    const id = crypto.randomUUID();
+    const message: StoredChatMessage = { id, parentId, sender: msg.sender, text: msg.text, createdAt: msg.createdAt };
+    parentId = id;
+    return message;
+  });
+
+  try {
+    await saveConversationMessages(userId, conversation.id, stored);
+  } catch (error) {
+    await deleteConversation(userId, conversation.id).catch(() => {});
+    throw error;
+  }
+  return { ...conversation, updated_at: new Date().toISOString() };
+};
+
+/**
+ * Renames a conversation.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation to rename.
+ * @param title The new title.
+ */
+export const renameConversation = async (userId: string, conversationId: string, title: string): Promise<void> => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ title })
+    .eq('user_id', userId)
+    .eq('id', conversationId);
+
+  if (error) {
+    throw new Error(`Failed to rename conversation: ${error.message}`);
+  }
+};
+
+/**
+ * Stores the running summary of a conversation's older messages.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation to update.
+ * @param summary The summary text.
+ * @param throughMessageId The last message the summary covers; it replaces that message and its ancestors.
+ */
+export const updateConversationSummary = async (
+  userId: string,
+  conversationId: string,
+  summary: string,
+  throughMessageId: string,
+): Promise<void> => {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ summary, summary_through_message_id: throughMessageId })
+    .eq('user_id', userId)
+    .eq('id', conversationId);
+
+  if (error) {
+    throw new Error(`Failed to save conversation summary: ${error.message}`);
+  }
+};
+
+/**
+ * Deletes a conversation together with its messages and attachments.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation to delete.
+ */
+export const deleteConversation = async (userId: string, conversationId: string): Promise<void> => {
+  // 1. Remove any attachments stored for this conversation
+  const folder = `${userId}/${conversationId}`;
+  const { data: files } = await supabase.storage.from(ATTACHMENT_BUCKET).list(folder);
+  if (files && files.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .remove(files.map(file => `${folder}/${file.name}`));
+    if (storageError) {
+      console.error("Failed to delete conversation attachments:", storageError.message);
+    }
+  }
+
+  // 2. Delete the messages so nothing is left behind if the cascade is missing
+  const { error: historyError } = await supabase
+    .from('chat_history')
+    .delete()
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId);
+
+  if (historyError) {
+    throw new Error(`Failed to delete conversation messages: ${historyError.message}`);
+  }
+
+  // 3. Delete the conversation itself
+  const { error } = await supabase
+    .from('conversations')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', conversationId);
+
+  if (error) {
+    throw new Error(`Failed to delete conversation: ${error.message}`);
+  }
+};
+
+/**
+ * Fetches every message of one conversation, across all branches, in chronological order,
+ * with a signed URL for every attachment.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation to load.
+ */
+export const getConversationMessages = async (userId: string, conversationId: string): Promise<LoadedChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('chat_history')
+    .select('message_id, parent_message_id, sender, text, attachments, passages, tool_results, created_at')
+    .eq('user_id', userId)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch chat history: ${error.message}`);
+  }
+
+  const rows: ChatHistoryRow[] = data ?? [];
+  const signedUrls = await signAttachmentUrls(rows.flatMap(row => (row.attachments ?? []).map(a => a.path)));
+
+  return rows.map(row => {
+    const toolFilePaths = new Set((row.tool_results ?? []).flatMap(result => ('path' in result ? [result.path] : [])));
+    return {
+      id: row.message_id,
+      parentId: row.parent_message_id,
+      sender: row.sender,
+      text: row.text,
+      createdAt: row.created_at,
+      // Files made by tools are shown in their tool result card instead.
+      attachments: (row.attachments ?? []).filter(a => !toolFilePaths.has(a.path)).map(a => ({
+        name: a.name,
+        mimeType: a.mime_type,
+        url: signedUrls.get(a.path) ?? '',
+        path: a.path,
+        size: a.size,
+      })),
+      toolResults: (row.tool_results ?? []).map((result): ToolDisplay => (
+        result.kind === 'sources' ? result : { ...result, url: signedUrls.get(result.path) ?? '' }
+      )),
+      passages: (row.passages ?? []).map(p => ({
+        documentName: p.document_name,
+        chunkId: p.chunk_id,
+        score: p.score,
+        text: p.text,
+      })),
+    };
+  });
+};
+
+/**
+ * Creates signed URLs, valid for one hour, for stored attachments. Paths that can't be signed
+ * are left out of the result.
+ * @param paths The attachments' storage paths.
+ * @returns The signed URL for each path.
+ */
+export const signAttachmentUrls = async (paths: string[]): Promise<Map<string, string>> => {
+  const signedUrls = new Map<string, string>();
+  if (paths.length === 0) return signedUrls;
+
+  const { data: signed, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(paths, 3600); // URLs valid for 1 hour
+
+  if (error) {
+    console.error("Failed to sign attachment URLs:", error.message);
+  }
+  signed?.forEach(entry => {
+    if (entry.path && entry.signedUrl) signedUrls.set(entry.path, entry.signedUrl);
+  });
+  return signedUrls;
+};
+
+/**
+ * Uploads files attached to a chat message to Supabase Storage.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation the message belongs to.
+ * @param files The attached files.
+ * @returns The storage entries to save alongside the message.
+ */
+export const uploadChatAttachments = async (
+  userId: string,
+  conversationId: string,
+  files: File[],
+): Promise<StoredAttachment[]> => {
+  const stored: StoredAttachment[] = [];
+
+  for (const file of files) {
+    const safeName = file.name.replace(/[^a-z0-9._-]/gi, '_');
+    const path = `${userId}/${conversationId}/${Date.now()}-${safeName}`;
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      // Attachments already uploaded for this message would be orphaned otherwise
+      if (stored.length > 0) {
+        await supabase.storage.from(ATTACHMENT_BUCKET).remove(stored.map(a => a.path));
+      }
+      throw new Error(`Failed to upload attachment "${file.name}": ${error.message}`);
+    }
+    stored.push({ path, name: file.name, mime_type: file.type, size: file.size });
+  }
+
+  return stored;
+};
+
+/**
+ * Appends messages to a conversation and bumps its `updated_at`.
+ * Messages are inserted in order, so a message may reply to one earlier in the same batch.
+ * @param userId The ID of the authenticated user.
+ * @param conversationId The conversation the messages belong to.
+ * @param messages The messages to store, in order.
+ */
+export const saveConversationMessages = async (
+  userId: string,
+  conversationId: string,
+  messages: StoredChatMessage[],
+): Promise<void> => {
+  const { error } = await supabase.from('chat_history').insert(
+    messages.map(msg => ({
+      user_id: userId,
+      conversation_id: conversationId,
+      message_id: msg.id,
+      parent_message_id: msg.parentId,
+      sender: msg.sender,
+      text: msg.text,
+      attachments: msg.attachments ?? [],
+      passages: (msg.passages ?? []).map(p => ({
+        document_name: p.documentName,
+        chunk_id: p.chunkId,
+        score: p.score,
+        text: p.text,
+      })),
+      tool_results: msg.toolResults ?? [],
+      ...(msg.createdAt ? { created_at: msg.createdAt } : {}),
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to save messages: ${error.message}`);
+  }
+
+  const { error: touchError } = await supabase
+    .from('conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('id', conversationId);
+
+  if (touchError) {
+    console.error("Failed to update conversation timestamp:", touchError.message);
+  }
+};
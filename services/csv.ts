@@ -0,0 +1,15 @@
+// CSV as spreadsheets expect it (RFC 4180): comma-separated, CRLF line endings, and fields
+// quoted when they contain a comma, a quote or a line break. Fields that a spreadsheet would
+// run as a formula get a leading apostrophe, so model output and file names stay plain text.
+
+const escapeField = (value: string): string => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document from a header row and data rows.
+ */
+export const toCsv = (header: string[], rows: string[][]): string => {
+  return [header, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
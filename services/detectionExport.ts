@@ -0,0 +1,68 @@
+import type { DetectedObject } from './aiProvider';
+import type { ExportFile } from './conversationExport';
+
+export type DetectionExportFormat = 'json' | 'coco';
+
+/** The image the detections belong to. Boxes are converted to its pixel size. */
+export interface DetectionImage {
+  fileName: string;
+  width: number;
+  height: number;
+}
+
+const toPixels = (object: DetectedObject, image: DetectionImage) => ({
+  x: Math.round(object.box.x * image.width),
+  y: Math.round(object.box.y * image.height),
+  width: Math.round(object.box.width * image.width),
+  height: Math.round(object.box.height * image.height),
+});
+
+const toJson = (objects: DetectedObject[], image: DetectionImage) => ({
+  image: image.fileName,
+  width: image.width,
+  height: image.height,
+  detectedAt: new Date().toISOString(),
+  objects: objects.map(object => ({
+    label: object.label,
+    confidence: object.confidence,
+    box: object.box,
+    pixelBox: toPixels(object, image),
+  })),
+});
+
+// COCO object-detection format: one image, one category per distinct label, and boxes as
+// [x, y, width, height] in pixels. `score` is the usual extension for detector output.
+const toCoco = (objects: DetectedObject[], image: DetectionImage) => {
+  const categories = [...new Set(objects.map(object => object.label))].map((name, index) => ({ id: index + 1, name, supercategory: 'object' }));
+  const categoryIds = new Map(categories.map(category => [category.name, category.id]));
+  return {
+    info: { description: `Objects detected in ${image.fileName}`, date_created: new Date().toISOString() },
+    images: [{ id: 1, file_name: image.fileName, width: image.width, height: image.height }],
+    annotations: objects.map((object, index) => {
+      const { x, y, width, height } = toPixels(object, image);
+      return {
+        id: index + 1,
+        image_id: 1,
+        category_id: categoryIds.get(object.label),
+        bbox: [x, y, width, height],
+        area: width * height,
+        iscrowd: 0,
+        score: object.confidence,
+      };
+    }),
+    categories,
+  };
+};
+
+/**
+ * Serializes detections in the given format, with a file name derived from the image's.
+ */
+export const formatDetectionExport = (objects: DetectedObject[], image: DetectionImage, format: DetectionExportFormat): ExportFile => {
+  const baseName = image.fileName.replace(/\.[^.]+$/, '') || 'image';
+  const data = format === 'coco' ? toCoco(objects, image) : toJson(objects, image);
+  return {
+    fileName: `${baseName}-${format === 'coco' ? 'coco' : 'objects'}.json`,
+    mimeType: 'application/json',
+    content: JSON.stringify(data, null, 2),
+  };
+};
@@ -0,0 +1,78 @@
+import { createImageUrls, UserImage } from './supabaseService';
+import { createZip, ZipEntry } from './zipArchive';
+import { urlToFile, fileToBase64, convertImage, base64ToFile, extensionForMimeType, ImageFormat } from './imageFiles';
+
+/**
+ * A readable file name for a gallery image, based on its prompt.
+ * @param mimeType The format the file will be in; defaults to the stored format.
+ */
+export const imageFileName = (image: UserImage, mimeType?: string): string => {
+  const baseName = image.prompt.substring(0, 30).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'gemini_image';
+  const extension = mimeType ? extensionForMimeType(mimeType) : image.storage_path.split('.').pop() || 'png';
+  return `${baseName}.${extension}`;
+};
+
+/**
+ * Downloads the full-size original of a saved image.
+ * @param format Converts the image to this format, if given.
+ */
+export const fetchGalleryImage = async (image: UserImage, format?: ImageFormat): Promise<File> => {
+  const url = (await createImageUrls([image.storage_path])).get(image.storage_path)?.url;
+  if (!url) {
+    throw new Error(`Failed to download "${image.prompt}": could not create a download link.`);
+  }
+  const file = await urlToFile(url, imageFileName(image));
+  if (!format || file.type === format) return file;
+
+  const converted = await convertImage({ data: await fileToBase64(file), mimeType: file.type }, format);
+  return base64ToFile(converted.data, imageFileName(image, converted.mimeType), converted.mimeType);
+};
+
+/**
+ * Downloads gallery images and packs them into a ZIP, together with a `manifest.json` that
+ * lists each file's prompt, date and provenance.
+ * @param images The images to include, in the order they should be numbered.
+ * @param onProgress Called after each image is downloaded.
+ */
+export const buildGalleryArchive = async (
+  images: UserImage[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const urls = await createImageUrls(images.map(image => image.storage_path));
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+  // Prompts repeat, so files are numbered to keep their names unique.
+  const digits = String(images.length).length;
+
+  for (const [index, image] of images.entries()) {
+    const url = urls.get(image.storage_path)?.url;
+    if (!url) {
+      throw new Error(`Failed to download "${image.prompt}": could not create a download link.`);
+    }
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download "${image.prompt}": ${response.status} ${response.statusText}`);
+    }
+    const file = `images/${String(index + 1).padStart(digits, '0')}-${imageFileName(image)}`;
+    const createdAt = new Date(image.created_at);
+    entries.push({ name: file, data: new Uint8Array(await response.arrayBuffer()), modifiedAt: createdAt });
+    manifest.push({
+      file,
+      prompt: image.prompt,
+      createdAt: image.created_at,
+      mimeType: image.mime_type ?? 'image/png',
+      source: image.source,
+      feature: image.feature,
+      model: image.model,
+      parameters: image.parameters,
+      editPrompts: image.edit_prompts,
+    });
+    onProgress?.(index + 1, images.length);
+  }
+
+  entries.push({
+    name: 'manifest.json',
+    data: JSON.stringify({ exportedAt: new Date().toISOString(), images: manifest }, null, 2),
+  });
+  return createZip(entries);
+};
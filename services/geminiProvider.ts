@@ -0,0 +1,365 @@
+import { GoogleGenAI, Chat, GenerateContentConfig, GenerateContentResponse, Modality, PersonGeneration, Type } from "@google/genai";
+import type { AIProvider, ChatInput, ChatOptions, ChatSession, ChatStreamChunk, DetectedObject, TranscriptSegment, PersonGeneration as PersonGenerationSetting } from './aiProvider';
+import { AIServiceError } from './aiErrors';
+
+const CHAT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+
+// Gemini gives boxes as [ymin, xmin, ymax, xmax], scaled to 0–1000.
+const DETECTION_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            label: { type: Type.STRING, description: 'A short name for the object.' },
+            confidence: { type: Type.NUMBER, description: 'How sure you are, from 0 to 1.' },
+            box_2d: {
+                type: Type.ARRAY,
+                items: { type: Type.INTEGER },
+                description: 'The bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000.',
+            },
+        },
+        required: ['label', 'confidence', 'box_2d'],
+    },
+};
+
+const toDetectedObjects = (json: string): DetectedObject[] => {
+    const items: unknown = JSON.parse(json);
+    if (!Array.isArray(items)) {
+        throw new Error("Unexpected detection response");
+    }
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return items.flatMap((item): DetectedObject[] => {
+        const box = item?.box_2d;
+        if (typeof item?.label !== 'string' || !Array.isArray(box) || box.length !== 4 || !box.every(Number.isFinite)) {
+            return [];
+        }
+        const [yMin, xMin, yMax, xMax] = box.map((value: number) => clamp(value / 1000));
+        if (xMax <= xMin || yMax <= yMin) return [];
+        return [{
+            label: item.label,
+            confidence: clamp(Number(item.confidence) || 0),
+            box: { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin },
+        }];
+    });
+};
+
+const PROMPT_ALTERNATIVES_SCHEMA = {
+    type: Type.ARRAY,
+    items: { type: Type.STRING, description: 'One complete image generation prompt.' },
+};
+
+const toPromptAlternatives = (json: string): string[] => {
+    const items: unknown = JSON.parse(json);
+    if (!Array.isArray(items)) {
+        throw new Error("Unexpected prompt enhancement response");
+    }
+    return items.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+};
+
+// Gemini places speech in audio most reliably with MM:SS timestamps.
+const TRANSCRIPT_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            start: { type: Type.STRING, description: 'When the segment starts, as MM:SS.s from the start of the audio.' },
+            end: { type: Type.STRING, description: 'When the segment ends, as MM:SS.s from the start of the audio.' },
+            speaker: { type: Type.STRING, description: 'The speaker label, e.g. "Speaker 1".' },
+            text: { type: Type.STRING, description: 'What was said, word for word.' },
+        },
+        required: ['start', 'end', 'speaker', 'text'],
+    },
+};
+
+/** Reads "MM:SS", "MM:SS.s" or "H:MM:SS" as seconds. */
+const parseTimestamp = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return NaN;
+    return value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+const toTranscriptSegments = (json: string): TranscriptSegment[] => {
+    const items: unknown = JSON.parse(json);
+    if (!Array.isArray(items)) {
+        throw new Error("Unexpected transcription response");
+    }
+    return items.flatMap((item): TranscriptSegment[] => {
+        const start = parseTimestamp(item?.start);
+        const end = parseTimestamp(item?.end);
+        if (typeof item?.text !== 'string' || !item.text.trim() || !Number.isFinite(start)) return [];
+        return [{
+            start,
+            end: Number.isFinite(end) && end > start ? end : start,
+            speaker: typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : 'Speaker 1',
+            text: item.text.trim(),
+        }];
+    });
+};
+
+const PERSON_GENERATION: Record<PersonGenerationSetting, PersonGeneration> = {
+    dont_allow: PersonGeneration.DONT_ALLOW,
+    allow_adult: PersonGeneration.ALLOW_ADULT,
+    allow_all: PersonGeneration.ALLOW_ALL,
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Blocked prompts and responses come back as successful responses without content;
+ * turn them into errors so they aren't mistaken for empty answers.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AIServiceError('safety', `Blocked by safety filters (${blockReason ?? finishReason}).`);
+    }
+};
+
+const toMessage = (input: ChatInput) => {
+    if ('functionResponses' in input) {
+        return input.functionResponses.map(functionResponse => ({ functionResponse }));
+    }
+    const files = input.files ?? [];
+    if (files.length === 0) return input.text;
+    return [...files.map(inlineData => ({ inlineData })), ...(input.text ? [{ text: input.text }] : [])];
+};
+
+// The SDK chat is created on the first message, so a missing key is reported as a failed send.
+// A per-message config replaces the chat's own, so the abort signal is sent along with a copy of it.
+const createGeminiChat = (config: GenerateContentConfig, createSdkChat: () => Chat): ChatSession => {
+    let chat: Chat | null = null;
+    return {
+        async *sendMessageStream(input: ChatInput, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+            chat ??= createSdkChat();
+            const stream = await chat.sendMessageStream({
+                message: toMessage(input),
+                ...(signal ? { config: { ...config, abortSignal: signal } } : {}),
+            });
+            for await (const chunk of stream) {
+                assertNotBlocked(chunk);
+                const functionCalls = chunk.functionCalls ?? [];
+                const text = chunk.candidates?.[0]?.content?.parts?.filter(part => !part.thought).map(part => part.text ?? '').join('') ?? '';
+                const totalTokens = chunk.usageMetadata?.totalTokenCount;
+                if (text || functionCalls.length > 0 || totalTokens) {
+                    yield { text, functionCalls, totalTokens };
+                }
+            }
+        },
+    };
+};
+
+/**
+ * The Gemini API provider. The client is created on first use, so a missing key only
+ * fails the requests that need it.
+ */
+export const createGeminiProvider = (apiKey?: string): AIProvider => {
+    let client: GoogleGenAI | null = null;
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable not set");
+        }
+        client ??= new GoogleGenAI({ apiKey });
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+        name: 'Gemini',
+        chatModel: CHAT_MODEL,
+        imageModel: IMAGE_MODEL,
+        imageEditModel: IMAGE_EDIT_MODEL,
+
+        createChat: ({ systemInstruction, history, functionDeclarations }: ChatOptions) => {
+            const config: GenerateContentConfig = {
+                ...(systemInstruction ? { systemInstruction } : {}),
+                ...(functionDeclarations?.length ? { tools: [{ functionDeclarations }] } : {}),
+            };
+            return createGeminiChat(config, () => getClient().chats.create({ model: CHAT_MODEL, config, history }));
+        },
+
+        generateText: async (prompt, { reasoning, files = [] } = {}) => {
+            const response = await getClient().models.generateContent({
+                model: reasoning ? 'gemini-2.5-pro' : 'gemini-2.5-flash',
+                contents: files.length > 0
+                    ? { parts: [...files.map(inlineData => ({ inlineData })), { text: prompt }] }
+                    : prompt,
+                ...(reasoning ? { config: { thinkingConfig: { thinkingBudget: 32768 } } } : {}),
+            });
+            assertNotBlocked(response);
+            return response.text ?? '';
+        },
+
+        enhanceImagePrompt: async (prompt, count) => {
+            const response = await getClient().models.generateContent({
+                model: CHAT_MODEL,
+                contents: `Rewrite this image generation prompt into ${count} alternative prompts for a text-to-image model. Keep the user's subject and intent, and add concrete detail on the subject, art style or medium, lighting, color, composition and camera or viewpoint. Make the alternatives differ from each other in style or mood. Each should be one paragraph of at most 80 words, with no preamble.\n\nPrompt: ${prompt}`,
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: PROMPT_ALTERNATIVES_SCHEMA,
+                },
+            });
+            assertNotBlocked(response);
+            return toPromptAlternatives(response.text ?? '[]').slice(0, count);
+        },
+
+        embedTexts: async (texts, taskType) => {
+            const response = await getClient().models.embedContent({
+                model: 'gemini-embedding-001',
+                contents: texts,
+                config: { taskType, outputDimensionality: 768 },
+            });
+            return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+        },
+
+        generateImages: async (prompt, { aspectRatio, numberOfImages, personGeneration }, signal) => {
+            const response = await getClient().models.generateImages({
+                model: IMAGE_MODEL,
+                prompt,
+                config: {
+                    numberOfImages,
+                    outputMimeType: 'image/jpeg',
+                    aspectRatio,
+                    includeRaiReason: true,
+                    abortSignal: signal,
+                    ...(personGeneration ? { personGeneration: PERSON_GENERATION[personGeneration] } : {}),
+                },
+            });
+            const generated = response.generatedImages ?? [];
+            const images = generated.map(image => image.image?.imageBytes).filter((bytes): bytes is string => !!bytes);
+            if (images.length === 0) {
+                const filtered = generated.find(image => image.raiFilteredReason);
+                if (filtered) {
+                    throw new AIServiceError('safety', filtered.raiFilteredReason!);
+                }
+                throw new Error("No image found in response");
+            }
+            return images;
+        },
+
+        editImage: async (prompt, image, mask) => {
+            const response = await getClient().models.generateContent({
+                model: IMAGE_EDIT_MODEL,
+                contents: {
+                    parts: [
+                        { inlineData: image },
+                        ...(mask ? [{ inlineData: mask }] : []),
+                        {
+                            text: mask
+                                ? `${prompt}\n\nThe second image is a mask for the first. Change only the area that is white in the mask and keep everything in the black area exactly as it is. Return the full image.`
+                                : prompt,
+                        },
+                    ],
+                },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                },
+            });
+            assertNotBlocked(response);
+
+            for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+                if (part.inlineData?.data) {
+                    return { data: part.inlineData.data, mimeType: part.inlineData.mimeType ?? 'image/png' };
+                }
+            }
+            throw new Error("No image found in response");
+        },
+
+        analyzeImage: async (prompt, image) => {
+            const response = await getClient().models.generateContent({
+                model: 'gemini-2.5-flash',
+                contents: { parts: [{ inlineData: image }, { text: prompt }] },
+            });
+            assertNotBlocked(response);
+            return response.text ?? '';
+        },
+
+        detectObjects: async (image, focus) => {
+            const target = focus?.trim() ? `all instances of "${focus.trim()}"` : 'the prominent objects';
+            const response = await getClient().models.generateContent({
+                model: 'gemini-2.5-flash',
+                contents: { parts: [{ inlineData: image }, { text: `Detect ${target} in this image. Label each one, rate your confidence and give its bounding box.` }] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: DETECTION_SCHEMA,
+                },
+            });
+            assertNotBlocked(response);
+            return toDetectedObjects(response.text ?? '[]');
+        },
+
+        groundedSearch: async (query, tool, location, signal) => {
+            const config: any = {
+                tools: tool === 'googleSearch' ? [{ googleSearch: {} }] : [{ googleMaps: {} }],
+                abortSignal: signal,
+            };
+
+            if (tool === 'googleMaps' && location) {
+                config.toolConfig = {
+                    retrievalConfig: {
+                        latLng: location
+                    }
+                };
+            }
+
+            const response = await getClient().models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: query,
+                config,
+            });
+            assertNotBlocked(response);
+
+            const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+            return { text: response.text ?? '', chunks };
+        },
+
+        generateSpeech: async (text, signal) => {
+            const response = await getClient().models.generateContent({
+                model: "gemini-2.5-flash-preview-tts",
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: 'Kore' },
+                        },
+                    },
+                },
+            });
+            assertNotBlocked(response);
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("No audio data received.");
+            }
+            return base64Audio;
+        },
+
+        transcribeAudio: async (audio, { language, previousSegments = [] } = {}) => {
+            const languageHint = language
+                ? ` The speech is in ${new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language}.`
+                : '';
+            const continuation = previousSegments.length > 0
+                ? `\n\nThis recording continues an earlier one, which ended with:\n${previousSegments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n')}\nKeep the same label for a voice heard there.`
+                : '';
+            const response = await getClient().models.generateContent({
+                model: CHAT_MODEL,
+                contents: {
+                    parts: [
+                        { inlineData: audio },
+                        { text: `Transcribe the speech in this recording word for word, in the language spoken, with punctuation.${languageHint} Split it into segments of one sentence or a short run of sentences by the same speaker. Tell speakers apart by their voice and label them "Speaker 1", "Speaker 2" and so on in order of first appearance. Give each segment's start and end time from the start of this recording. If there is no speech, return an empty list.${continuation}` },
+                    ],
+                },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: TRANSCRIPT_SCHEMA,
+                },
+            });
+            assertNotBlocked(response);
+            return toTranscriptSegments(response.text ?? '[]');
+        },
+    };
+};
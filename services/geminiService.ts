@@ -1,77 +1,296 @@
+import type { FunctionDeclaration, FunctionResponse } from "@google/genai";
+import {
+    getAIProvider,
+    ChatHistoryContent,
+    ChatInput,
+    ChatSession,
+    ChatStreamChunk,
+    GroundedResult,
+    ImageGenerationOptions,
+    InlineData,
+    DetectedObject,
+    TranscriptSegment,
+} from './aiProvider';
+import { maskToBlackAndWhite, compositeMaskedEdit } from './imageMask';
+import { detectImageMimeType, EncodedImage } from './imageFiles';
+import { decodeAudioFile, splitAudio, encodeWavChunk } from './audioFiles';
+import { AIServiceError, toAIServiceError, withRetry, shouldRetry, getRetryDelay, waitForRetry } from './aiErrors';
 
-import { GoogleGenAI, Chat, GenerateContentResponse, Modality, Type, GroundingChunk } from "@google/genai";
+// The app's AI features, in terms of the configured provider (see aiProvider.ts).
+// Every function retries transient failures and throws an AIServiceError whose message
+// says what went wrong and what to do about it.
+
+export type { ChatHistoryContent, ChatSession, ChatStreamChunk, InlineData };
+export { AIServiceError };
+export type { AIErrorKind } from './aiErrors';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// --- Text and Chat ---
+export const createChat = (
+    systemInstruction?: string,
+    history?: ChatHistoryContent[],
+    functionDeclarations?: FunctionDeclaration[],
+): ChatSession => {
+    return getAIProvider().createChat({ systemInstruction, history, functionDeclarations });
+};
+
+export const sendMessageToChat = async (chat: ChatSession, message: string): Promise<string> => {
+    let reply = '';
+    for await (const chunk of streamChatResponse(chat, { text: message }, "Failed to send message")) {
+        reply += chunk.text;
+    }
+    return reply;
+};
+
+/**
+ * Streams a chat reply. A request that fails before anything arrives is retried; once part of
+ * the reply has been shown, the failure is reported instead so the text isn't duplicated.
+ */
+const streamChatResponse = async function* (
+    chat: ChatSession,
+    input: ChatInput,
+    action: string,
+    signal?: AbortSignal,
+): AsyncGenerator<ChatStreamChunk> {
+    for (let attempt = 0; ; attempt++) {
+        let received = false;
+        try {
+            for await (const chunk of chat.sendMessageStream(input, signal)) {
+                if (signal?.aborted) return;
+                received = true;
+                yield chunk;
+            }
+            return;
+        } catch (error) {
+            // Stopping cancels the request, which the SDK reports as an error.
+            if (signal?.aborted) return;
+            const serviceError = toAIServiceError(error, action);
+            if (received || !shouldRetry(attempt, serviceError)) {
+                console.error(`${action}:`, error);
+                throw serviceError;
+            }
+            const delay = getRetryDelay(attempt, serviceError);
+            console.warn(`${action} (${serviceError.kind}); retrying in ${Math.round(delay)} ms.`);
+            await waitForRetry(delay, signal);
+            if (signal?.aborted) return;
+        }
+    }
+};
 
-// Define the history type based on the expected API structure
-interface ChatHistoryContent {
-    role: 'user' | 'model';
-    parts: { text: string }[];
+/**
+ * Reads files into the inline form chat history takes, so a rebuilt session can replay earlier attachments.
+ */
+export const readInlineFiles = (files: File[]): Promise<InlineData[]> => Promise.all(files.map(fileToGenerativePart));
+
+/**
+ * Sends a message, with any attached files inlined, and yields the reply as it streams in.
+ * Stops yielding as soon as `signal` is aborted; the partial reply is left to the caller.
+ */
+export async function* streamMessageToChat(
+    chat: ChatSession,
+    message: string,
+    signal?: AbortSignal,
+    attachments: File[] = [],
+): AsyncGenerator<ChatStreamChunk> {
+    let files: InlineData[];
+    try {
+        files = await Promise.all(attachments.map(fileToGenerativePart));
+    } catch (error) {
+        console.error("Error reading attachments:", error);
+        throw new AIServiceError('invalid-input', "Failed to read the attached files. Remove them and attach them again.", { cause: error });
+    }
+    yield* streamChatResponse(chat, { text: message, files }, "Failed to get a reply", signal);
 }
 
+/**
+ * Returns the results of the model's function calls and yields its follow-up reply.
+ */
+export async function* streamToolResponsesToChat(
+    chat: ChatSession,
+    responses: FunctionResponse[],
+    signal?: AbortSignal,
+): AsyncGenerator<ChatStreamChunk> {
+    yield* streamChatResponse(chat, { functionResponses: responses }, "Failed to send tool results", signal);
+}
 
-// --- Text and Chat ---
-export const createChat = (systemInstruction?: string, history?: ChatHistoryContent[]): Chat => {
-    return ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: systemInstruction ? { systemInstruction } : undefined,
-        history: history,
-    });
+export const generateConversationTitle = async (userMessage: string, botReply: string): Promise<string> => {
+    try {
+        const text = await withRetry(() => getAIProvider().generateText(
+            `Write a short title (at most 6 words) for a conversation that starts with this exchange. Reply with the title only, no quotes or punctuation at the end.\n\nUser: ${userMessage}\n\nAssistant: ${botReply.slice(0, 1000)}`,
+        ));
+        return text.trim().replace(/^["']|["'.]$/g, '').slice(0, 100);
+    } catch (error) {
+        console.error("Error generating conversation title:", error);
+        throw toAIServiceError(error, "Failed to generate conversation title");
+    }
 };
 
-export const sendMessageToChat = async (chat: Chat, message: string): Promise<string> => {
+/**
+ * Folds older conversation turns into a running summary.
+ * @param previousSummary The summary so far, or an empty string.
+ * @param messages The turns to fold in, oldest first.
+ */
+export const summarizeConversation = async (
+    previousSummary: string,
+    messages: { sender: 'user' | 'bot'; text: string }[],
+): Promise<string> => {
+    const transcript = messages
+        .map(msg => `${msg.sender === 'user' ? 'User' : 'Assistant'}: ${msg.text}`)
+        .join('\n\n');
     try {
-        const response: GenerateContentResponse = await chat.sendMessage({ message });
-        return response.text;
+        const text = await withRetry(() => getAIProvider().generateText(`Update the running summary of a conversation between a user and an AI assistant.
+Keep every fact, decision, preference, open question and piece of code the assistant may need later; drop pleasantries.
+Write in compact prose or bullet points, at most 400 words.
+
+Current summary:
+${previousSummary || '(none yet)'}
+
+New turns to fold in:
+${transcript}`));
+        return text.trim();
     } catch (error) {
-        console.error("Error sending message:", error);
-        return "Sorry, I encountered an error. Please try again.";
+        console.error("Error summarizing conversation:", error);
+        throw toAIServiceError(error, "Failed to summarize conversation");
     }
 };
 
 export const solveComplexTask = async (prompt: string): Promise<string> => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-pro",
-            contents: prompt,
-            config: {
-                thinkingConfig: { thinkingBudget: 32768 }
-            }
-        });
-        return response.text;
+        return await withRetry(() => getAIProvider().generateText(prompt, { reasoning: true }));
     } catch (error) {
         console.error("Error solving complex task:", error);
-        return "An error occurred while processing the complex task.";
+        throw toAIServiceError(error, "Failed to solve the task");
+    }
+};
+
+
+// --- Embeddings and Documents ---
+export const embedTexts = async (
+    texts: string[],
+    taskType: 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY',
+): Promise<number[][]> => {
+    try {
+        return await withRetry(() => getAIProvider().embedTexts(texts, taskType));
+    } catch (error) {
+        console.error("Error embedding texts:", error);
+        throw toAIServiceError(error, "Failed to embed texts");
+    }
+};
+
+export const extractDocumentText = async (documentFile: File): Promise<string> => {
+    try {
+        const documentPart = await fileToGenerativePart(documentFile);
+        return await withRetry(() => getAIProvider().generateText(
+            "Extract the full text of this document as plain text. Keep headings and paragraph breaks. Do not summarize or add commentary.",
+            { files: [documentPart] },
+        ));
+    } catch (error) {
+        console.error("Error extracting document text:", error);
+        throw toAIServiceError(error, "Failed to extract document text");
     }
 };
 
 
 // --- Image Generation and Editing ---
-export const generateImage = async (prompt: string, aspectRatio: string): Promise<string> => {
+/** Base64-encoded image data with its MIME type. */
+export type GeneratedImage = EncodedImage;
+
+// Trusts the image bytes over the reported type, which can be missing or wrong.
+const toGeneratedImage = (image: InlineData): GeneratedImage => ({
+    data: image.data,
+    mimeType: detectImageMimeType(image.data) ?? image.mimeType,
+});
+
+export type { ImageGenerationOptions, PersonGeneration } from './aiProvider';
+
+/**
+ * Rewrites a short image prompt into more detailed alternatives for the user to pick from.
+ * @param prompt The prompt as the user wrote it.
+ * @param count How many alternatives to return.
+ */
+export const enhanceImagePrompt = async (prompt: string, count: number = 3): Promise<string[]> => {
+    try {
+        const alternatives = await withRetry(() => getAIProvider().enhanceImagePrompt(prompt, count));
+        if (alternatives.length === 0) {
+            throw new Error("No enhanced prompts in response");
+        }
+        return alternatives;
+    } catch (error) {
+        console.error("Error enhancing prompt:", error);
+        throw toAIServiceError(error, "Failed to enhance prompt");
+    }
+};
+
+export const MAX_IMAGES_PER_RUN = 4;
+
+export interface ImageRequestOptions extends ImageGenerationOptions {
+    /** What the images should not contain. */
+    negativePrompt?: string;
+}
+
+/**
+ * Generates images from a prompt. The Gemini API has no negative prompt setting, so what to
+ * avoid is written into the prompt instead.
+ */
+export const generateImages = async (prompt: string, { negativePrompt, ...options }: ImageRequestOptions, signal?: AbortSignal): Promise<GeneratedImage[]> => {
+    const fullPrompt = negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}` : prompt;
+    try {
+        const numberOfImages = Math.min(Math.max(Math.round(options.numberOfImages), 1), MAX_IMAGES_PER_RUN);
+        const images = await withRetry(() => getAIProvider().generateImages(fullPrompt, { ...options, numberOfImages }, signal), signal);
+        return images.map(data => toGeneratedImage({ data, mimeType: 'image/jpeg' }));
+    } catch (error) {
+        console.error("Error generating images:", error);
+        throw toAIServiceError(error, "Failed to generate images");
+    }
+};
+
+export const generateImage = async (prompt: string, aspectRatio: string, signal?: AbortSignal): Promise<GeneratedImage> => {
+    const [image] = await generateImages(prompt, { aspectRatio, numberOfImages: 1 }, signal);
+    return image;
+};
+
+/**
+ * Generates variations of an existing image, each as a separate edit so they differ from each other.
+ * @param prompt The prompt the source image was generated from.
+ * @param source The image to vary.
+ * @param count How many variations to make, 1 to 4.
+ */
+export const generateImageVariations = async (prompt: string, source: GeneratedImage, count: number): Promise<GeneratedImage[]> => {
+    const instruction = `Create a variation of this image. Keep its subject, composition and style, but vary the details. The image was made from this prompt: ${prompt}`;
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio,
-            },
-        });
-        return response.generatedImages[0].image.imageBytes;
+        const total = Math.min(Math.max(Math.round(count), 1), MAX_IMAGES_PER_RUN);
+        const images = await Promise.all(Array.from({ length: total }, (_, i) =>
+            withRetry(() => getAIProvider().editImage(`${instruction}\n\n(Variation ${i + 1} of ${total}.)`, source)),
+        ));
+        return images.map(toGeneratedImage);
     } catch (error) {
-        console.error("Error generating image:", error);
-        throw new Error("Failed to generate image.");
+        console.error("Error generating image variations:", error);
+        throw toAIServiceError(error, "Failed to generate variations");
+    }
+};
+
+/**
+ * Generates new images from a prompt, using an existing image as a visual reference.
+ * @param prompt What to create.
+ * @param reference The image to take the subject, style and composition from.
+ * @param count How many images to make, 1 to 4.
+ */
+export const generateFromReference = async (prompt: string, reference: GeneratedImage, count: number): Promise<GeneratedImage[]> => {
+    const instruction = `Create a new image for the prompt below. Use this image as a visual reference for the subject, style and composition.\n\nPrompt: ${prompt}`;
+    try {
+        const total = Math.min(Math.max(Math.round(count), 1), MAX_IMAGES_PER_RUN);
+        const images = await Promise.all(Array.from({ length: total }, (_, i) =>
+            withRetry(() => getAIProvider().editImage(total > 1 ? `${instruction}\n\n(Image ${i + 1} of ${total}.)` : instruction, reference)),
+        ));
+        return images.map(toGeneratedImage);
+    } catch (error) {
+        console.error("Error generating images from reference:", error);
+        throw toAIServiceError(error, "Failed to generate images from the reference");
     }
 };
 
 const fileToGenerativePart = (file: File) => {
-    return new Promise<{ mimeType: string; data: string }>((resolve, reject) => {
+    return new Promise<InlineData>((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = () => {
@@ -86,47 +305,68 @@ const fileToGenerativePart = (file: File) => {
 };
 
 
-export const editImage = async (prompt: string, imageFile: File): Promise<string> => {
+/**
+ * Edits an image from a text prompt.
+ * @param mask Optional base64 PNG, opaque where the image may change (see imageMask.ts). The
+ *   model is told about the region and its output is composited so nothing outside it changes.
+ */
+export const editImage = async (prompt: string, imageFile: File, mask?: string): Promise<GeneratedImage> => {
     try {
         const imagePart = await fileToGenerativePart(imageFile);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { inlineData: imagePart },
-                    { text: prompt },
-                ],
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
+        if (!mask) {
+            return toGeneratedImage(await withRetry(() => getAIProvider().editImage(prompt, imagePart)));
         }
-        throw new Error("No image found in response");
-
+        const maskPart = { mimeType: 'image/png', data: await maskToBlackAndWhite(mask) };
+        const edited = toGeneratedImage(await withRetry(() => getAIProvider().editImage(prompt, imagePart, maskPart)));
+        return { data: await compositeMaskedEdit(imageFile, edited.data, edited.mimeType, mask), mimeType: 'image/png' };
     } catch (error) {
         console.error("Error editing image:", error);
-        throw new Error("Failed to edit image.");
+        throw toAIServiceError(error, "Failed to edit image");
     }
 };
 
 export const analyzeImage = async (prompt: string, imageFile: File): Promise<string> => {
     try {
         const imagePart = await fileToGenerativePart(imageFile);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            // FIX: The image part needs to be wrapped in an `inlineData` object.
-            contents: { parts: [{ inlineData: imagePart }, { text: prompt }] },
-        });
-        return response.text;
+        return await withRetry(() => getAIProvider().analyzeImage(prompt, imagePart));
     } catch (error) {
         console.error("Error analyzing image:", error);
-        throw new Error("Failed to analyze image.");
+        throw toAIServiceError(error, "Failed to analyze image");
+    }
+};
+
+export const MAX_COMPARE_IMAGES = 10;
+
+/**
+ * Answers a question about several images at once, e.g. what changed between screenshots.
+ * The images are numbered in the order given, so the answer can refer to "Image 2".
+ */
+export const compareImages = async (prompt: string, imageFiles: File[]): Promise<string> => {
+    try {
+        const imageParts = await Promise.all(imageFiles.slice(0, MAX_COMPARE_IMAGES).map(fileToGenerativePart));
+        const names = imageFiles.slice(0, MAX_COMPARE_IMAGES).map((file, i) => `Image ${i + 1}: ${file.name}`).join('\n');
+        const instruction = `You are given ${imageParts.length} images, in this order:\n${names}\n\nRefer to them by number. ${prompt}`;
+        return await withRetry(() => getAIProvider().generateText(instruction, { files: imageParts }));
+    } catch (error) {
+        console.error("Error comparing images:", error);
+        throw toAIServiceError(error, "Failed to compare images");
+    }
+};
+
+
+export type { DetectedObject, BoundingBox } from './aiProvider';
+
+/**
+ * Finds objects in an image and returns each with a label, a confidence and a bounding box.
+ * @param focus What to look for, e.g. "cars"; everything prominent when omitted.
+ */
+export const detectObjects = async (imageFile: File, focus?: string): Promise<DetectedObject[]> => {
+    try {
+        const imagePart = await fileToGenerativePart(imageFile);
+        return await withRetry(() => getAIProvider().detectObjects(imagePart, focus));
+    } catch (error) {
+        console.error("Error detecting objects:", error);
+        throw toAIServiceError(error, "Failed to detect objects");
     }
 };
 
@@ -135,60 +375,99 @@ export const analyzeImage = async (prompt: string, imageFile: File): Promise<str
 export const performGroundedSearch = async (
     query: string, 
     tool: 'googleSearch' | 'googleMaps',
-    location?: { latitude: number, longitude: number }
-): Promise<{ text: string, chunks: GroundingChunk[] }> => {
+    location?: { latitude: number, longitude: number },
+    signal?: AbortSignal,
+): Promise<GroundedResult> => {
     try {
-        const config: any = {
-            tools: tool === 'googleSearch' ? [{ googleSearch: {} }] : [{ googleMaps: {} }],
-        };
-
-        if (tool === 'googleMaps' && location) {
-            config.toolConfig = {
-                retrievalConfig: {
-                    latLng: location
-                }
-            };
-        }
-        
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: query,
-            config,
-        });
-
-        const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        return { text: response.text, chunks };
-
+        return await withRetry(() => getAIProvider().groundedSearch(query, tool, location, signal), signal);
     } catch (error) {
         console.error("Error with grounded search:", error);
-        throw new Error("Failed to perform grounded search.");
+        throw toAIServiceError(error, "Failed to perform grounded search");
     }
 };
 
 
 // --- Audio ---
-export const generateSpeech = async (text: string): Promise<string> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received.");
-        }
-        return base64Audio;
+export const generateSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+    try {
+        return await withRetry(() => getAIProvider().generateSpeech(text, signal), signal);
     } catch (error) {
         console.error("Error generating speech:", error);
-        throw new Error("Failed to generate speech.");
+        throw toAIServiceError(error, "Failed to generate speech");
+    }
+};
+
+export type { TranscriptSegment } from './aiProvider';
+
+// How much of the previous part is passed along so speaker labels carry over.
+const SPEAKER_CONTEXT_SEGMENTS = 4;
+
+export interface TranscriptionOptions {
+    /** A BCP 47 tag such as "en-US"; detected from the audio when omitted. */
+    language?: string;
+    /** Called before the first part and after each one, with the segments so far. */
+    onProgress?: (completed: number, total: number, segments: TranscriptSegment[]) => void;
+    /** Stops after the part being transcribed; the parts done so far are returned. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a part of a long recording fails after earlier parts were transcribed; carries
+ * those parts' segments so they aren't lost.
+ */
+export class PartialTranscriptionError extends AIServiceError {
+    /** The segments of the parts before the one that failed. */
+    readonly segments: TranscriptSegment[];
+    /** The 1-based number of the part that failed. */
+    readonly failedPart: number;
+
+    constructor(error: AIServiceError, segments: TranscriptSegment[], failedPart: number) {
+        super(error.kind, error.message, { status: error.status, retryAfterMs: error.retryAfterMs, cause: error.cause });
+        this.name = 'PartialTranscriptionError';
+        this.segments = segments;
+        this.failedPart = failedPart;
+    }
+}
+
+/**
+ * Transcribes a recording or audio file in any format the browser can play into timed
+ * segments with speaker labels. Long audio is sent in parts of a few minutes each, one after
+ * the other; segment times are from the start of the whole recording. If a later part fails,
+ * the error is a PartialTranscriptionError with the segments transcribed until then.
+ */
+export const transcribeAudio = async (audio: Blob, { language, onProgress, signal }: TranscriptionOptions = {}): Promise<TranscriptSegment[]> => {
+    let chunks;
+    try {
+        chunks = splitAudio(await decodeAudioFile(audio));
+    } catch (error) {
+        console.error("Error decoding audio:", error);
+        throw new AIServiceError('invalid-input', "Failed to read the audio. Use an mp3, wav, m4a or webm file that plays in this browser.", { cause: error });
+    }
+
+    let segments: TranscriptSegment[] = [];
+    let previousSegments: TranscriptSegment[] = [];
+    onProgress?.(0, chunks.length, segments);
+    for (const [index, chunk] of chunks.entries()) {
+        if (signal?.aborted) break;
+        let chunkSegments: TranscriptSegment[];
+        try {
+            chunkSegments = await withRetry(
+                () => getAIProvider().transcribeAudio({ data: encodeWavChunk(chunk), mimeType: 'audio/wav' }, { language, previousSegments }),
+                signal,
+            );
+        } catch (error) {
+            // Stopped while waiting to retry: keep the parts done so far, as for any other stop.
+            if (signal?.aborted) break;
+            console.error("Error transcribing audio:", error);
+            const serviceError = toAIServiceError(error, chunks.length > 1 ? `Failed to transcribe part ${index + 1} of ${chunks.length}` : "Failed to transcribe audio");
+            throw segments.length > 0 ? new PartialTranscriptionError(serviceError, segments, index + 1) : serviceError;
+        }
+        // Models sometimes place the last words slightly past the end of the audio.
+        const length = chunk.end - chunk.start;
+        const clamp = (time: number) => chunk.start + Math.min(Math.max(time, 0), length);
+        segments = [...segments, ...chunkSegments.map(segment => ({ ...segment, start: clamp(segment.start), end: clamp(segment.end) }))];
+        previousSegments = chunkSegments.slice(-SPEAKER_CONTEXT_SEGMENTS);
+        onProgress?.(index + 1, chunks.length, segments);
     }
+    return segments;
 };
@@ -0,0 +1,126 @@
+// Conversions between the forms images take across features: base64 data from the models,
+// signed URLs from the gallery, and the File objects uploads and the AI services work with.
+
+/**
+ * Wraps base64-encoded bytes in a File.
+ */
+export const base64ToFile = (base64: string, fileName: string, mimeType: string): File => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], fileName, { type: mimeType });
+};
+
+/**
+ * Downloads an image, e.g. from a signed gallery URL, into a File.
+ * @param fileName Used as is; the MIME type comes from the response.
+ */
+export const urlToFile = async (url: string, fileName: string): Promise<File> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download image: ${response.status} ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+};
+
+/**
+ * Reads a File as base64 data, without the `data:` URL prefix.
+ */
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/** An image as base64 data with its MIME type. */
+export interface EncodedImage {
+  data: string;
+  mimeType: string;
+}
+
+/** The formats images can be converted to in the browser. */
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType] ?? 'png';
+
+/**
+ * Identifies an image from its first bytes, since models and uploads don't always report
+ * the format they actually produced.
+ * @returns The MIME type, or null if the data isn't a PNG, JPEG, WebP or GIF image.
+ */
+export const detectImageMimeType = (base64: string): string | null => {
+  const header = atob(base64.slice(0, 24));
+  const byte = (i: number) => header.charCodeAt(i);
+  if (byte(0) === 0x89 && header.slice(1, 4) === 'PNG') return 'image/png';
+  if (byte(0) === 0xff && byte(1) === 0xd8 && byte(2) === 0xff) return 'image/jpeg';
+  if (header.slice(0, 4) === 'RIFF' && header.slice(8, 12) === 'WEBP') return 'image/webp';
+  if (header.slice(0, 4) === 'GIF8') return 'image/gif';
+  return null;
+};
+
+const loadImage = (image: EncodedImage): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error("Could not load image."));
+    element.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+};
+
+// Browsers that can't encode a format fall back to PNG, so the result's type is read back
+// from the data URL rather than assumed.
+const drawAndEncode = (source: HTMLImageElement, format: ImageFormat, scale: number, quality: number): EncodedImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(source.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available.");
+  if (format === 'image/jpeg') {
+    // JPEG has no transparency; without a background, transparent areas turn black.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL(format, quality);
+  return { data: dataUrl.split(',')[1], mimeType: dataUrl.slice(5, dataUrl.indexOf(';')) };
+};
+
+/**
+ * Re-encodes an image in another format. Images already in that format are returned as is.
+ * @param quality For JPEG and WebP, from 0 to 1.
+ */
+export const convertImage = async (image: EncodedImage, format: ImageFormat, quality = 0.92): Promise<EncodedImage> => {
+  if (image.mimeType === format) return image;
+  return drawAndEncode(await loadImage(image), format, 1, quality);
+};
+
+export const THUMBNAIL_SIZE = 512;
+
+/**
+ * Scales an image down so its longer side is at most `maxSize` pixels, as WebP where the
+ * browser supports it. Smaller images are only re-encoded.
+ */
+export const createThumbnail = async (image: EncodedImage, maxSize = THUMBNAIL_SIZE): Promise<EncodedImage> => {
+  const source = await loadImage(image);
+  const scale = Math.min(1, maxSize / Math.max(source.naturalWidth, source.naturalHeight));
+  return drawAndEncode(source, 'image/webp', scale, 0.8);
+};
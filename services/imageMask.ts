@@ -0,0 +1,92 @@
+// Helpers for mask-based edits. Masks are PNGs that are opaque white where the user painted
+// and transparent elsewhere, at the size of the image they belong to.
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load image."));
+    image.src = src;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available.");
+  return { canvas, ctx };
+};
+
+const toBase64Png = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+/**
+ * Turns a painted overlay into a mask: white wherever anything was painted.
+ * @returns The mask as base64 PNG data, or null if nothing is painted.
+ */
+export const overlayToMask = (overlay: HTMLCanvasElement): string | null => {
+  const { canvas, ctx } = createCanvas(overlay.width, overlay.height);
+  ctx.drawImage(overlay, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  let painted = false;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] > 0) {
+      painted = true;
+      break;
+    }
+  }
+  if (!painted) return null;
+
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return toBase64Png(canvas);
+};
+
+/**
+ * Flattens a mask onto black, the form image models expect: white is editable, black is kept.
+ */
+export const maskToBlackAndWhite = async (mask: string): Promise<string> => {
+  const maskImage = await loadImage(`data:image/png;base64,${mask}`);
+  const { canvas, ctx } = createCanvas(maskImage.naturalWidth, maskImage.naturalHeight);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(maskImage, 0, 0);
+  return toBase64Png(canvas);
+};
+
+/**
+ * Keeps the edit only inside the mask: the original image shows through everywhere else,
+ * with a slightly feathered edge so the seam doesn't show.
+ * @param original The unedited image.
+ * @param edited The model's output, as base64 data.
+ * @param editedMimeType The MIME type of `edited`.
+ * @param mask The mask the edit was made with.
+ * @returns The combined image as base64 PNG data, at the original's size.
+ */
+export const compositeMaskedEdit = async (original: File, edited: string, editedMimeType: string, mask: string): Promise<string> => {
+  const originalUrl = URL.createObjectURL(original);
+  try {
+    const [originalImage, editedImage, maskImage] = await Promise.all([
+      loadImage(originalUrl),
+      loadImage(`data:${editedMimeType};base64,${edited}`),
+      loadImage(`data:image/png;base64,${mask}`),
+    ]);
+    const width = originalImage.naturalWidth;
+    const height = originalImage.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+
+    ctx.drawImage(editedImage, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.filter = `blur(${Math.max(1, Math.round(width / 400))}px)`;
+    ctx.drawImage(maskImage, 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.drawImage(originalImage, 0, 0, width, height);
+
+    return toBase64Png(canvas);
+  } finally {
+    URL.revokeObjectURL(originalUrl);
+  }
+};
@@ -0,0 +1,255 @@
+import { embedTexts, extractDocumentText } from './geminiService';
+
+// The knowledge base lives in the browser's IndexedDB, one database per user,
+// so retrieval works locally without any server-side vector store.
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  createdAt: string;
+  chunkCount: number;
+}
+
+interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  index: number;
+  text: string;
+  embedding: number[];
+}
+
+export interface RetrievedPassage {
+  documentName: string;
+  chunkId: string;
+  text: string;
+  score: number;
+}
+
+const DB_VERSION = 1;
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+const EMBED_BATCH_SIZE = 100;
+// Passages scoring below this are treated as unrelated to the question.
+const MIN_SCORE = 0.5;
+
+export const SUPPORTED_KNOWLEDGE_TYPES = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+const openDatabase = (userId: string): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(`eburon-knowledge-${userId}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('documents', { keyPath: 'id' });
+      const chunks = db.createObjectStore('chunks', { keyPath: 'id' });
+      chunks.createIndex('documentId', 'documentId');
+      db.createObjectStore('meta');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Chunks are cached per user so each turn doesn't have to reread the whole index.
+const chunkCache = new Map<string, KnowledgeChunk[]>();
+
+const loadChunks = async (userId: string): Promise<KnowledgeChunk[]> => {
+  const cached = chunkCache.get(userId);
+  if (cached) return cached;
+
+  const db = await openDatabase(userId);
+  const chunks = await promisify(db.transaction('chunks').objectStore('chunks').getAll() as IDBRequest<KnowledgeChunk[]>);
+  db.close();
+  chunkCache.set(userId, chunks);
+  return chunks;
+};
+
+/**
+ * Splits text into overlapping chunks, preferring paragraph and sentence boundaries.
+ */
+const chunkText = (text: string): string[] => {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '));
+      if (breakAt > CHUNK_SIZE / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+
+  return chunks;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+const readDocumentText = async (file: File): Promise<string> => {
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    return extractDocumentText(file);
+  }
+  return file.text();
+};
+
+/**
+ * Lists the documents in the user's knowledge base, newest first.
+ * @param userId The ID of the authenticated user.
+ */
+export const listKnowledgeDocuments = async (userId: string): Promise<KnowledgeDocument[]> => {
+  const db = await openDatabase(userId);
+  const documents = await promisify(db.transaction('documents').objectStore('documents').getAll() as IDBRequest<KnowledgeDocument[]>);
+  db.close();
+  return documents.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Chunks, embeds and stores a document in the user's knowledge base.
+ * @param userId The ID of the authenticated user.
+ * @param file A text, Markdown or PDF file.
+ */
+export const ingestKnowledgeDocument = async (userId: string, file: File): Promise<KnowledgeDocument> => {
+  const text = await readDocumentText(file);
+  const pieces = chunkText(text);
+  if (pieces.length === 0) {
+    throw new Error(`"${file.name}" does not contain any text.`);
+  }
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < pieces.length; i += EMBED_BATCH_SIZE) {
+    embeddings.push(...await embedTexts(pieces.slice(i, i + EMBED_BATCH_SIZE), 'RETRIEVAL_DOCUMENT'));
+  }
+
+  const document: KnowledgeDocument = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    createdAt: new Date().toISOString(),
+    chunkCount: pieces.length,
+  };
+
+  const db = await openDatabase(userId);
+  const tx = db.transaction(['documents', 'chunks'], 'readwrite');
+  tx.objectStore('documents').put(document);
+  pieces.forEach((piece, index) => {
+    tx.objectStore('chunks').put({
+      id: `${document.id}:${index}`,
+      documentId: document.id,
+      index,
+      text: piece,
+      embedding: embeddings[index],
+    } satisfies KnowledgeChunk);
+  });
+  await transactionDone(tx);
+  db.close();
+
+  chunkCache.delete(userId);
+  return document;
+};
+
+/**
+ * Removes a document and all of its chunks from the user's knowledge base.
+ * @param userId The ID of the authenticated user.
+ * @param documentId The document to remove.
+ */
+export const deleteKnowledgeDocument = async (userId: string, documentId: string): Promise<void> => {
+  const db = await openDatabase(userId);
+  const tx = db.transaction(['documents', 'chunks'], 'readwrite');
+  tx.objectStore('documents').delete(documentId);
+  const chunkKeys = await promisify(tx.objectStore('chunks').index('documentId').getAllKeys(documentId));
+  chunkKeys.forEach(key => tx.objectStore('chunks').delete(key));
+  await transactionDone(tx);
+  db.close();
+
+  chunkCache.delete(userId);
+};
+
+/**
+ * Seeds an empty knowledge base with the bundled /knowledge_base.txt, once per user.
+ * @param userId The ID of the authenticated user.
+ */
+export const seedKnowledgeBase = async (userId: string): Promise<void> => {
+  const db = await openDatabase(userId);
+  const seeded = await promisify(db.transaction('meta').objectStore('meta').get('seeded'));
+  db.close();
+  if (seeded) return;
+
+  const response = await fetch('/knowledge_base.txt');
+  if (response.ok) {
+    const text = await response.text();
+    await ingestKnowledgeDocument(userId, new File([text], 'knowledge_base.txt', { type: 'text/plain' }));
+  }
+
+  const writeDb = await openDatabase(userId);
+  const tx = writeDb.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(true, 'seeded');
+  await transactionDone(tx);
+  writeDb.close();
+};
+
+/**
+ * Finds the passages in the user's knowledge base most relevant to a query.
+ * @param userId The ID of the authenticated user.
+ * @param query The user's message.
+ * @param limit The maximum number of passages to return.
+ */
+export const retrievePassages = async (userId: string, query: string, limit: number = 4): Promise<RetrievedPassage[]> => {
+  const chunks = await loadChunks(userId);
+  if (chunks.length === 0 || !query.trim()) return [];
+
+  const [queryEmbedding] = await embedTexts([query], 'RETRIEVAL_QUERY');
+  const documents = new Map((await listKnowledgeDocuments(userId)).map(doc => [doc.id, doc.name]));
+
+  return chunks
+    .map(chunk => ({
+      documentName: documents.get(chunk.documentId) ?? 'Unknown document',
+      chunkId: chunk.id,
+      text: chunk.text,
+      score: cosineSimilarity(queryEmbedding, chunk.embedding),
+    }))
+    .filter(passage => passage.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Prepends retrieved passages to a user message so the model can ground its answer in them.
+ */
+export const buildGroundedMessage = (message: string, passages: RetrievedPassage[]): string => {
+  if (passages.length === 0) return message;
+
+  const context = passages
+    .map((passage, i) => `[${i + 1}] (${passage.documentName})\n${passage.text}`)
+    .join('\n\n');
+  return `Knowledge base passages:\n${context}\n\nUser message:\n${message}`;
+};
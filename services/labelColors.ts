@@ -0,0 +1,12 @@
+// Colors for labels the model assigns, such as detected object kinds and transcript speakers.
+
+const LABEL_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#fbbf24', '#818cf8', '#fb7185', '#34d399', '#c084fc'];
+
+/** The same label always gets the same color, so items of one kind are easy to spot. */
+export const colorForLabel = (label: string): string => {
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) {
+    hash = (hash * 31 + label.charCodeAt(i)) | 0;
+  }
+  return LABEL_COLORS[Math.abs(hash) % LABEL_COLORS.length];
+};
@@ -0,0 +1,52 @@
+// Helpers for chat messages stored as a tree: each message points at the one it replies to,
+// and editing or regenerating adds a sibling instead of overwriting.
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null;
+  createdAt: string;
+}
+
+export type NodeMap<T extends TreeNode> = Record<string, T>;
+
+export const toNodeMap = <T extends TreeNode>(nodes: T[]): NodeMap<T> =>
+  Object.fromEntries(nodes.map(node => [node.id, node]));
+
+const byCreatedAt = (a: TreeNode, b: TreeNode) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Returns the children of a node (or the roots, for `null`), oldest first.
+ */
+export const getChildren = <T extends TreeNode>(nodes: NodeMap<T>, parentId: string | null): T[] =>
+  Object.values(nodes).filter(node => node.parentId === parentId).sort(byCreatedAt);
+
+/**
+ * Returns a node together with its siblings, oldest first.
+ */
+export const getSiblings = <T extends TreeNode>(nodes: NodeMap<T>, node: T): T[] =>
+  getChildren(nodes, node.parentId);
+
+/**
+ * Returns the messages from the root down to `leafId`.
+ */
+export const getPath = <T extends TreeNode>(nodes: NodeMap<T>, leafId: string | null): T[] => {
+  const path: T[] = [];
+  let current = leafId ? nodes[leafId] : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? nodes[current.parentId] : undefined;
+  }
+  return path;
+};
+
+/**
+ * Follows the most recent child at every level, starting from `fromId` (or the roots, for `null`).
+ */
+export const findLatestLeaf = <T extends TreeNode>(nodes: NodeMap<T>, fromId: string | null): string | null => {
+  let currentId = fromId;
+  for (;;) {
+    const children = getChildren(nodes, currentId);
+    if (children.length === 0) return currentId;
+    currentId = children[children.length - 1].id;
+  }
+};
@@ -0,0 +1,280 @@
+import type { FunctionCall, GroundingChunk } from "@google/genai";
+import type { AIProvider, ChatInput, ChatOptions, ChatSession, ChatStreamChunk, DetectedObject, InlineData, TranscriptSegment } from './aiProvider';
+
+// An offline stand-in for the Gemini API. Every response is derived from a hash of the
+// request, so the same input always gives the same output and no network access is needed.
+
+const EMBEDDING_DIMENSIONS = 768;
+// Imagen options that the Gemini API, called with an API key, refuses before sending anything.
+const UNSUPPORTED_IMAGE_OPTIONS = ['negativePrompt', 'seed', 'addWatermark'];
+const SAMPLE_RATE = 24000;
+
+const CANNED_REPLIES = [
+    "This is a canned reply from the offline mock provider. It lets you try the interface without an API key.",
+    "The mock provider doesn't understand your message, but it answers consistently so you can test the flow end to end.",
+    "Offline mode is on. Configure GEMINI_API_KEY and AI_PROVIDER=gemini to get real answers.",
+    "Here is a deterministic placeholder answer. Sending the same message again gives the same reply.",
+];
+
+const MOCK_PROMPT_STYLES = [
+    'cinematic photograph, golden hour backlight, shallow depth of field, wide shot',
+    'detailed watercolor illustration, soft diffuse light, pastel palette, centered composition',
+    'studio portrait, dramatic rim lighting, high contrast, close-up from a low angle',
+    'isometric 3D render, bright even lighting, saturated colors, clean background',
+    'moody oil painting, candlelight, deep shadows, rule-of-thirds framing',
+];
+
+const MOCK_OBJECT_LABELS = ['person', 'dog', 'car', 'tree', 'cup', 'chair', 'bicycle', 'book'];
+
+const hashString = (text: string): number => {
+    // FNV-1a, 32 bit.
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const cannedReply = (seed: string) => CANNED_REPLIES[hashString(seed) % CANNED_REPLIES.length];
+
+const excerpt = (text: string, length = 80) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > length ? `${singleLine.slice(0, length)}...` : singleLine;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+const loadImage = (image: InlineData): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new Error("Could not decode image."));
+        element.src = `data:${image.mimeType};base64,${image.data}`;
+    });
+};
+
+const parseAspectRatio = (aspectRatio: string): [number, number] => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    return w > 0 && h > 0 ? [w, h] : [1, 1];
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, lines: string[], width: number, height: number) => {
+    const fontSize = Math.round(width / 28);
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.6)';
+    ctx.fillRect(0, height - fontSize * (lines.length + 1), width, fontSize * (lines.length + 1));
+    ctx.fillStyle = '#f8fafc';
+    lines.forEach((line, i) => {
+        ctx.fillText(line, width / 2, height - fontSize * (lines.length - i - 0.25), width * 0.9);
+    });
+};
+
+/**
+ * Builds a chat session that echoes back what it received. When a tool is available and the
+ * message asks for it by name (e.g. "generate_image: a red fox"), the mock calls that tool.
+ */
+const createMockChat = ({ systemInstruction = '', history = [], functionDeclarations = [] }: ChatOptions): ChatSession => {
+    const transcript = [systemInstruction, ...history.flatMap(content => content.parts.map(part => ('text' in part ? part.text : `[${part.inlineData.mimeType}]`)))];
+
+    return {
+        async *sendMessageStream(input: ChatInput): AsyncGenerator<ChatStreamChunk> {
+            let reply: string;
+            let functionCalls: FunctionCall[] = [];
+
+            if ('functionResponses' in input) {
+                const names = input.functionResponses.map(response => response.name).join(', ');
+                reply = `The ${names} tool finished. Its output is shown above.`;
+                transcript.push(JSON.stringify(input.functionResponses));
+            } else {
+                const text = input.text;
+                const files = input.files ?? [];
+                const tool = functionDeclarations.find(declaration => declaration.name && text.includes(`${declaration.name}:`));
+                transcript.push(text);
+
+                if (tool?.name) {
+                    const argument = text.slice(text.indexOf(`${tool.name}:`) + tool.name.length + 1).trim();
+                    const parameter = Object.keys(tool.parameters?.properties ?? {})[0] ?? 'input';
+                    functionCalls = [{ id: `mock-${hashString(text)}`, name: tool.name, args: { [parameter]: argument } }];
+                    reply = '';
+                } else {
+                    const attached = files.length > 0 ? ` I received ${files.length} attached file${files.length > 1 ? 's' : ''}.` : '';
+                    reply = `${cannedReply(text)}${attached}\n\nYou said: "${excerpt(text)}"`;
+                }
+            }
+
+            transcript.push(reply);
+            const totalTokens = Math.ceil(transcript.join('').length / 4);
+            const words = reply.split(/(?<= )/);
+            for (const word of words) {
+                await sleep(30);
+                yield { text: word, functionCalls: [] };
+            }
+            yield { text: '', functionCalls, totalTokens };
+        },
+    };
+};
+
+/**
+ * The offline mock provider: canned text, placeholder images and a generated tone for speech.
+ */
+export const createMockProvider = (): AIProvider => ({
+    id: 'mock',
+    name: 'Offline mock',
+    chatModel: 'mock',
+    imageModel: 'mock',
+    imageEditModel: 'mock',
+
+    createChat: createMockChat,
+
+    generateText: async (prompt, { reasoning, files = [] } = {}) => {
+        await sleep(reasoning ? 1200 : 300);
+        const attached = files.length > 0 ? ` (${files.length} file${files.length > 1 ? 's' : ''} attached)` : '';
+        return `${cannedReply(prompt)}${attached}`;
+    },
+
+    enhanceImagePrompt: async (prompt, count) => {
+        await sleep(400);
+        const offset = hashString(prompt);
+        return Array.from({ length: count }, (_, i) => `${prompt.trim()}, ${MOCK_PROMPT_STYLES[(offset + i) % MOCK_PROMPT_STYLES.length]}`);
+    },
+
+    // A hashed bag of words: texts that share words get similar vectors, which is enough
+    // for knowledge base retrieval to behave plausibly offline.
+    embedTexts: async (texts) => texts.map(text => {
+        const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+        for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+            vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+        return vector.map(value => value / norm);
+    }),
+
+    generateImages: async (prompt, options) => {
+        // Fail like the Gemini API does, so options it doesn't support can't slip through offline.
+        for (const option of UNSUPPORTED_IMAGE_OPTIONS) {
+            if ((options as unknown as Record<string, unknown>)[option] !== undefined) {
+                throw new Error(`${option} parameter is not supported in Gemini API.`);
+            }
+        }
+        const { aspectRatio, numberOfImages } = options;
+        await sleep(600);
+        const [ratioW, ratioH] = parseAspectRatio(aspectRatio);
+        const width = ratioW >= ratioH ? 1024 : Math.round(1024 * ratioW / ratioH);
+        const height = ratioW >= ratioH ? Math.round(1024 * ratioH / ratioW) : 1024;
+
+        return Array.from({ length: numberOfImages }, (_, index) => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error("Canvas is not available.");
+
+            const hue = hashString(`${prompt}|${aspectRatio}|${index}`) % 360;
+            const gradient = ctx.createLinearGradient(0, 0, width, height);
+            gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+            gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+            drawCaption(ctx, [`Mock image ${index + 1}`, excerpt(prompt, 60)], width, height);
+
+            return canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+        });
+    },
+
+    editImage: async (prompt, image) => {
+        await sleep(600);
+        const source = await loadImage(image);
+        const canvas = document.createElement('canvas');
+        canvas.width = source.naturalWidth;
+        canvas.height = source.naturalHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas is not available.");
+
+        ctx.drawImage(source, 0, 0);
+        ctx.globalCompositeOperation = 'color';
+        ctx.fillStyle = `hsl(${hashString(prompt) % 360}, 60%, 50%)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        drawCaption(ctx, [`Mock edit: ${excerpt(prompt, 60)}`], canvas.width, canvas.height);
+
+        return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+    },
+
+    analyzeImage: async (prompt, image) => {
+        const source = await loadImage(image);
+        return `${cannedReply(prompt + image.data.length)}\n\nThe image is a ${source.naturalWidth}×${source.naturalHeight} ${image.mimeType} file. You asked: "${excerpt(prompt)}"`;
+    },
+
+    detectObjects: async (image, focus) => {
+        await sleep(500);
+        const seed = hashString(image.data.slice(0, 2000) + (focus ?? ''));
+        const count = 2 + seed % 3;
+        return Array.from({ length: count }, (_, i): DetectedObject => {
+            const h = hashString(`${seed}:${i}`);
+            const width = 0.15 + (h % 25) / 100;
+            const height = 0.15 + ((h >>> 8) % 25) / 100;
+            return {
+                label: focus?.trim() || MOCK_OBJECT_LABELS[(h >>> 16) % MOCK_OBJECT_LABELS.length],
+                confidence: 0.5 + ((h >>> 4) % 50) / 100,
+                box: {
+                    x: ((h >>> 12) % 100) / 100 * (1 - width),
+                    y: ((h >>> 20) % 100) / 100 * (1 - height),
+                    width,
+                    height,
+                },
+            };
+        });
+    },
+
+    groundedSearch: async (query, tool) => {
+        await sleep(400);
+        const encoded = encodeURIComponent(query);
+        const chunks: GroundingChunk[] = tool === 'googleSearch'
+            ? [
+                { web: { uri: `https://example.com/search?q=${encoded}`, title: `Example result for "${excerpt(query, 40)}"` } },
+                { web: { uri: `https://example.org/articles/${hashString(query)}`, title: 'Another example source' } },
+            ]
+            : [{ maps: { uri: `https://maps.example.com/?q=${encoded}`, title: `Example place near you` } }];
+        return { text: `${cannedReply(query)}\n\nThese sources are placeholders.`, chunks };
+    },
+
+    generateSpeech: async (text) => {
+        // A soft sine tone whose pitch depends on the text and whose length follows its word count.
+        const words = text.trim().split(/\s+/).length;
+        const seconds = Math.min(Math.max(words * 0.3, 0.5), 10);
+        const frequency = 220 + (hashString(text) % 440);
+        const samples = Math.round(seconds * SAMPLE_RATE);
+        const fade = Math.round(0.05 * SAMPLE_RATE);
+        const pcm = new Int16Array(samples);
+        for (let i = 0; i < samples; i++) {
+            const envelope = Math.min(1, i / fade, (samples - i) / fade);
+            pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.3 * 32767);
+        }
+        return bytesToBase64(new Uint8Array(pcm.buffer));
+    },
+
+    transcribeAudio: async (audio, { language } = {}) => {
+        await sleep(500);
+        // 16 kHz 16-bit mono WAV, as geminiService sends it: 32 000 bytes a second after the header.
+        const seconds = audio.mimeType === 'audio/wav' ? Math.max(1, (audio.data.length * 3 / 4 - 44) / 32000) : 10;
+        const seed = hashString(audio.data.slice(0, 2000));
+        const count = Math.max(1, Math.min(12, Math.round(seconds / 8)));
+        const length = seconds / count;
+        return Array.from({ length: count }, (_, i): TranscriptSegment => ({
+            start: i * length,
+            end: (i + 1) * length,
+            speaker: `Speaker ${1 + (seed + i) % 2}`,
+            text: `${CANNED_REPLIES[(seed + i) % CANNED_REPLIES.length]}${language && i === 0 ? ` (${language})` : ''}`,
+        }));
+    },
+});
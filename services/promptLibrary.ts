@@ -0,0 +1,99 @@
+import { supabase } from './supabaseClient';
+
+/** The features with a prompt box that can use the library. */
+export type PromptFeature = 'image-generator' | 'image-editor' | 'image-analyzer' | 'complex-solver' | 'tts';
+
+export interface SavedPrompt {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  /** The feature the prompt is meant for; null when it fits any of them. */
+  feature: PromptFeature | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptInput {
+  title: string;
+  body: string;
+  tags: string[];
+  feature: PromptFeature | null;
+}
+
+const PROMPT_COLUMNS = 'id, title, body, tags, feature, created_at, updated_at';
+
+// `{{name}}`, with optional spaces inside the braces.
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Lists the distinct `{{variable}}` names in a prompt, in the order they first appear.
+ */
+export const getPromptVariables = (body: string): string[] => {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+};
+
+/**
+ * Replaces every `{{variable}}` with its value. Variables without a value are left as they are.
+ */
+export const fillPromptVariables = (body: string, values: Record<string, string>): string => {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] || placeholder);
+};
+
+/**
+ * Fetches the user's saved prompts, most recently changed first.
+ * @param userId The ID of the authenticated user.
+ * @param feature When given, only prompts for this feature and prompts for any feature.
+ */
+export const getPrompts = async (userId: string, feature?: PromptFeature): Promise<SavedPrompt[]> => {
+  let request = supabase
+    .from('prompts')
+    .select(PROMPT_COLUMNS)
+    .eq('user_id', userId);
+
+  if (feature) {
+    request = request.or(`feature.eq.${feature},feature.is.null`);
+  }
+
+  const { data, error } = await request.order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch prompts: ${error.message}`);
+  }
+  return data ?? [];
+};
+
+/**
+ * Adds a prompt to the user's library.
+ * @param userId The ID of the authenticated user.
+ * @param prompt The prompt to save.
+ */
+export const savePrompt = async (userId: string, prompt: PromptInput): Promise<SavedPrompt> => {
+  const { data, error } = await supabase
+    .from('prompts')
+    .insert({ user_id: userId, ...prompt })
+    .select(PROMPT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save prompt: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Removes a prompt from the user's library.
+ * @param userId The ID of the authenticated user.
+ * @param promptId The prompt to delete.
+ */
+export const deletePrompt = async (userId: string, promptId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('prompts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', promptId);
+
+  if (error) {
+    throw new Error(`Failed to delete prompt: ${error.message}`);
+  }
+};
@@ -1,8 +1,74 @@
 
 import { supabase } from './supabaseClient';
+import { createThumbnail, detectImageMimeType, extensionForMimeType, EncodedImage } from './imageFiles';
+
+export type ImageSource = 'generated' | 'edited';
+
+export type ImageFeature = 'image-generation' | 'image-editor';
+
+/** How a saved image was made. */
+export interface ImageProvenance {
+  feature: ImageFeature;
+  model: string;
+  /** The settings the image was made with, e.g. aspect ratio or seed. */
+  parameters?: Record<string, unknown>;
+  /** The saved image this one was made from, if any. */
+  parentId?: number | null;
+  /** For edited images, the prompt of every edit step, oldest first. */
+  editPrompts?: string[];
+}
+
+export interface UserImage {
+  id: number;
+  prompt: string;
+  storage_path: string;
+  created_at: string;
+  source: ImageSource;
+  edit_prompts: string[];
+  feature: ImageFeature;
+  /** Null for images saved before models were recorded. */
+  model: string | null;
+  parameters: Record<string, unknown>;
+  parent_id: number | null;
+  /** Null for images saved before formats were recorded; those are PNG. */
+  mime_type: string | null;
+  /** A downscaled preview for grids; null for images saved before thumbnails existed. */
+  thumbnail_path: string | null;
+}
+
+export type ImageSort = 'newest' | 'oldest' | 'prompt';
+
+export interface ImageQuery {
+  /** Full-text search over prompts; supports quoted phrases, "or" and -exclusions. */
+  search?: string;
+  source?: ImageSource;
+  /** Inclusive bounds as ISO timestamps. */
+  createdFrom?: string;
+  createdTo?: string;
+  sort?: ImageSort;
+  /** How many matching images to skip, i.e. how many are already loaded. */
+  offset: number;
+  limit: number;
+}
+
+export interface ImagePage {
+  images: UserImage[];
+  total: number;
+}
+
+export interface SignedImageUrl {
+  url: string;
+  /** Epoch milliseconds after which the URL stops working. */
+  expiresAt: number;
+}
+
+const IMAGE_COLUMNS = 'id, prompt, storage_path, created_at, source, edit_prompts, feature, model, parameters, parent_id, mime_type, thumbnail_path';
+// Bounds the walk up and down a lineage, in case of a cycle or a very long chain.
+const MAX_LINEAGE_DEPTH = 50;
+const SIGNED_URL_TTL_SECONDS = 3600;
 
 // Helper function to convert base64 to a Blob
-const base64ToBlob = (base64: string, contentType: string = 'image/png'): Blob => {
+const base64ToBlob = (base64: string, contentType: string): Blob => {
   const byteCharacters = atob(base64);
   const byteNumbers = new Array(byteCharacters.length);
   for (let i = 0; i < byteCharacters.length; i++) {
@@ -13,104 +79,236 @@ const base64ToBlob = (base64: string, contentType: string = 'image/png'): Blob =
 };
 
 /**
- * Uploads an image to Supabase Storage and saves its metadata to the database.
+ * Uploads an image and a thumbnail of it to Supabase Storage and saves its metadata to the database.
  * @param userId The ID of the authenticated user.
  * @param prompt The prompt used to generate the image.
- * @param imageBase64 The base64-encoded image data.
+ * @param image The image data; it is stored in the format its bytes are actually in.
+ * @param provenance The feature, model and settings that produced the image.
+ * @returns The saved image's record.
  */
-export const saveImage = async (userId: string, prompt: string, imageBase64: string): Promise<void> => {
-  const imageBlob = base64ToBlob(imageBase64);
-  const filePath = `${userId}/${new Date().toISOString()}.png`;
+export const saveImage = async (userId: string, prompt: string, image: EncodedImage, provenance: ImageProvenance): Promise<UserImage> => {
+  const editPrompts = provenance.editPrompts ?? [];
+  const mimeType = detectImageMimeType(image.data) ?? image.mimeType;
+  const timestamp = new Date().toISOString();
+  const filePath = `${userId}/${timestamp}.${extensionForMimeType(mimeType)}`;
 
   // 1. Upload the image file to Supabase Storage
   const { error: uploadError } = await supabase.storage
     .from('user_images')
-    .upload(filePath, imageBlob);
+    .upload(filePath, base64ToBlob(image.data, mimeType), { contentType: mimeType });
 
   if (uploadError) {
     console.error("Storage upload error:", uploadError);
     throw new Error(`Failed to upload image to storage: ${uploadError.message}`);
   }
 
-  // 2. Insert the image metadata into the `user_images` table
-  const { error: insertError } = await supabase
+  // 2. Upload a thumbnail next to it. The gallery falls back to the original without one,
+  // so a failure here doesn't fail the save.
+  let thumbnailPath: string | null = null;
+  try {
+    const thumbnail = await createThumbnail({ data: image.data, mimeType });
+    const path = `${userId}/thumbnails/${timestamp}.${extensionForMimeType(thumbnail.mimeType)}`;
+    const { error: thumbnailError } = await supabase.storage
+      .from('user_images')
+      .upload(path, base64ToBlob(thumbnail.data, thumbnail.mimeType), { contentType: thumbnail.mimeType });
+    if (thumbnailError) throw thumbnailError;
+    thumbnailPath = path;
+  } catch (error) {
+    console.error("Thumbnail upload error:", error);
+  }
+
+  // 3. Insert the image metadata into the `user_images` table
+  const { data, error: insertError } = await supabase
     .from('user_images')
     .insert({
       user_id: userId,
       prompt: prompt,
       storage_path: filePath,
-    });
+      source: provenance.feature === 'image-editor' ? 'edited' : 'generated',
+      edit_prompts: editPrompts,
+      feature: provenance.feature,
+      model: provenance.model,
+      parameters: provenance.parameters ?? {},
+      parent_id: provenance.parentId ?? null,
+      mime_type: mimeType,
+      thumbnail_path: thumbnailPath,
+    })
+    .select(IMAGE_COLUMNS)
+    .single();
 
   if (insertError) {
     console.error("Database insert error:", insertError);
-    // Attempt to clean up the orphaned storage object
-    await supabase.storage.from('user_images').remove([filePath]);
+    // Attempt to clean up the orphaned storage objects
+    await supabase.storage.from('user_images').remove(thumbnailPath ? [filePath, thumbnailPath] : [filePath]);
     throw new Error(`Failed to save image metadata: ${insertError.message}`);
   }
+  return data;
 };
 
 
 /**
- * Fetches all images for a given user from the gallery.
+ * Fetches one page of the user's gallery. URLs are not included; see `createImageUrls`.
  * @param userId The ID of the authenticated user.
- * @returns A promise that resolves to an array of user image objects.
+ * @param query Search, filters, sort order and which slice of the results to fetch.
  */
-export const getUserImages = async (userId: string) => {
-    const { data: imagesData, error: dbError } = await supabase
+export const getUserImages = async (userId: string, query: ImageQuery): Promise<ImagePage> => {
+    let request = supabase
         .from('user_images')
-        .select('id, prompt, storage_path, created_at')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
+        .select(IMAGE_COLUMNS, { count: 'exact' })
+        .eq('user_id', userId);
 
-    if (dbError) {
-        throw new Error(`Failed to fetch image records: ${dbError.message}`);
+    if (query.search?.trim()) {
+        request = request.textSearch('prompt_search', query.search.trim(), { type: 'websearch', config: 'english' });
+    }
+    if (query.source) {
+        request = request.eq('source', query.source);
+    }
+    if (query.createdFrom) {
+        request = request.gte('created_at', query.createdFrom);
+    }
+    if (query.createdTo) {
+        request = request.lte('created_at', query.createdTo);
     }
 
-    if (!imagesData || imagesData.length === 0) {
-        return [];
+    const sort = query.sort ?? 'newest';
+    request = sort === 'prompt'
+        ? request.order('prompt', { ascending: true }).order('created_at', { ascending: false })
+        : request.order('created_at', { ascending: sort === 'oldest' });
+
+    const { data, count, error } = await request.range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+        throw new Error(`Failed to fetch image records: ${error.message}`);
     }
 
-    const signedUrlPromises = imagesData.map(image => 
-        supabase.storage.from('user_images').createSignedUrl(image.storage_path, 3600) // URL valid for 1 hour
-    );
-
-    const signedUrlResults = await Promise.all(signedUrlPromises);
-    
-    return imagesData.map((image, index) => {
-        const { data, error } = signedUrlResults[index];
-        if (error || !data) {
-            console.error(`Failed to get signed URL for ${image.storage_path}`, error);
-            return { ...image, url: '' }; // Handle failure case
+    return {
+        images: (data ?? []).map(image => ({ ...image, edit_prompts: image.edit_prompts ?? [] })),
+        total: count ?? 0,
+    };
+};
+
+/**
+ * Fetches the family of an image: every ancestor up to the original, and every image
+ * derived from that original, directly or indirectly.
+ * @param userId The ID of the authenticated user.
+ * @param imageId Any image in the family.
+ * @returns The images in no particular order; link them with `parent_id`.
+ */
+export const getImageLineage = async (userId: string, imageId: number): Promise<UserImage[]> => {
+    const fetchWhere = async (column: 'id' | 'parent_id', ids: number[]): Promise<UserImage[]> => {
+        const { data, error } = await supabase
+            .from('user_images')
+            .select(IMAGE_COLUMNS)
+            .eq('user_id', userId)
+            .in(column, ids);
+
+        if (error) {
+            throw new Error(`Failed to fetch image lineage: ${error.message}`);
         }
-        return { ...image, url: data.signedUrl };
-    });
+        return data ?? [];
+    };
+
+    const lineage = new Map<number, UserImage>();
+
+    // Walk up to the original.
+    let [root] = await fetchWhere('id', [imageId]);
+    if (!root) {
+        throw new Error("Failed to fetch image lineage: image not found");
+    }
+    lineage.set(root.id, root);
+    for (let depth = 0; root.parent_id !== null && !lineage.has(root.parent_id) && depth < MAX_LINEAGE_DEPTH; depth++) {
+        const [parent] = await fetchWhere('id', [root.parent_id]);
+        if (!parent) break;
+        lineage.set(parent.id, parent);
+        root = parent;
+    }
+
+    // Then down, one generation at a time.
+    const expanded = new Set<number>();
+    let generation = [root.id];
+    for (let depth = 0; generation.length > 0 && depth < MAX_LINEAGE_DEPTH; depth++) {
+        generation.forEach(id => expanded.add(id));
+        const children = await fetchWhere('parent_id', generation);
+        children.forEach(child => lineage.set(child.id, child));
+        generation = children.map(child => child.id).filter(id => !expanded.has(id));
+    }
+
+    return [...lineage.values()];
 };
 
 /**
- * Deletes an image from storage and its corresponding database record.
+ * Creates signed URLs for gallery images, valid for one hour.
+ * @param storagePaths The images to sign.
+ * @returns The URLs by storage path; paths that could not be signed are left out.
+ */
+export const createImageUrls = async (storagePaths: string[]): Promise<Map<string, SignedImageUrl>> => {
+    const urls = new Map<string, SignedImageUrl>();
+    if (storagePaths.length === 0) return urls;
+
+    const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000;
+    const { data, error } = await supabase.storage
+        .from('user_images')
+        .createSignedUrls(storagePaths, SIGNED_URL_TTL_SECONDS);
+
+    if (error) {
+        throw new Error(`Failed to create image URLs: ${error.message}`);
+    }
+
+    for (const item of data ?? []) {
+        if (item.path && item.signedUrl && !item.error) {
+            urls.set(item.path, { url: item.signedUrl, expiresAt });
+        } else {
+            console.error(`Failed to get signed URL for ${item.path}`, item.error);
+        }
+    }
+    return urls;
+};
+
+/**
+ * Deletes several images from storage and their database records, in one request each.
  * @param userId The ID of the authenticated user.
- * @param storagePath The path of the image in Supabase Storage.
+ * @param storagePaths The paths of the images in Supabase Storage.
  */
-export const deleteImage = async (userId: string, storagePath: string): Promise<void> => {
-    // 1. Delete the image from Supabase Storage
+export const deleteImages = async (userId: string, storagePaths: string[]): Promise<void> => {
+    if (storagePaths.length === 0) return;
+
+    const { data: records, error: lookupError } = await supabase
+        .from('user_images')
+        .select('thumbnail_path')
+        .eq('user_id', userId)
+        .in('storage_path', storagePaths);
+
+    if (lookupError) {
+        throw new Error(`Failed to look up images: ${lookupError.message}`);
+    }
+
+    // 1. Delete the images and their thumbnails from Supabase Storage
+    const thumbnailPaths = (records ?? []).map(record => record.thumbnail_path).filter((path): path is string => !!path);
     const { error: storageError } = await supabase.storage
         .from('user_images')
-        .remove([storagePath]);
-    
+        .remove([...storagePaths, ...thumbnailPaths]);
+
     if (storageError) {
-        throw new Error(`Failed to delete image from storage: ${storageError.message}`);
+        throw new Error(`Failed to delete images from storage: ${storageError.message}`);
     }
 
-    // 2. Delete the metadata record from the `user_images` table
+    // 2. Delete the metadata records from the `user_images` table
     const { error: dbError } = await supabase
         .from('user_images')
         .delete()
         .eq('user_id', userId)
-        .eq('storage_path', storagePath);
-    
+        .in('storage_path', storagePaths);
+
     if (dbError) {
-        // This is not ideal as the file is already deleted, but we should log it.
+        // This is not ideal as the files are already deleted, but we should log it.
         console.error("Failed to delete image metadata from database:", dbError.message);
-        throw new Error(`Failed to delete image record: ${dbError.message}`);
+        throw new Error(`Failed to delete image records: ${dbError.message}`);
     }
-}
+};
+
+/**
+ * Deletes an image from storage and its corresponding database record.
+ * @param userId The ID of the authenticated user.
+ * @param storagePath The path of the image in Supabase Storage.
+ */
+export const deleteImage = (userId: string, storagePath: string): Promise<void> => deleteImages(userId, [storagePath]);
@@ -0,0 +1,94 @@
+import type { TranscriptSegment } from './aiProvider';
+import type { ExportFile } from './conversationExport';
+import { formatDuration } from './audioFiles';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+/** Names given to speaker labels, e.g. "Speaker 1" → "Ana". Unnamed speakers keep their label. */
+export type SpeakerNames = Record<string, string>;
+
+// Caption players skip cues that end where they start.
+const MIN_CUE_SECONDS = 0.5;
+
+export const speakerName = (speaker: string, names: SpeakerNames): string => names[speaker]?.trim() || speaker;
+
+/** The speaker labels in order of first appearance. */
+export const getSpeakers = (segments: TranscriptSegment[]): string[] => [...new Set(segments.map(segment => segment.speaker))];
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const milliseconds = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(milliseconds % 1000, 3)}`;
+};
+
+const cueEnd = (segment: TranscriptSegment) => Math.max(segment.end, segment.start + MIN_CUE_SECONDS);
+
+const toSrt = (segments: TranscriptSegment[], names: SpeakerNames): string => {
+  return segments.map((segment, index) => `${index + 1}
+${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(cueEnd(segment), ',')}
+${speakerName(segment.speaker, names)}: ${segment.text}
+`).join('\n');
+};
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toVtt = (segments: TranscriptSegment[], names: SpeakerNames): string => {
+  const cues = segments.map(segment => `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(cueEnd(segment), '.')}
+<v ${escapeVtt(speakerName(segment.speaker, names))}>${escapeVtt(segment.text)}
+`);
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+// Consecutive segments by the same speaker read as one paragraph.
+const toText = (segments: TranscriptSegment[], names: SpeakerNames): string => {
+  const paragraphs: string[] = [];
+  let previousSpeaker: string | null = null;
+  for (const segment of segments) {
+    if (segment.speaker === previousSpeaker) {
+      paragraphs[paragraphs.length - 1] += ` ${segment.text}`;
+    } else {
+      paragraphs.push(`[${formatDuration(segment.start)}] ${speakerName(segment.speaker, names)}: ${segment.text}`);
+      previousSpeaker = segment.speaker;
+    }
+  }
+  return paragraphs.join('\n\n') + '\n';
+};
+
+const toJson = (segments: TranscriptSegment[], names: SpeakerNames, title: string) => ({
+  title,
+  exportedAt: new Date().toISOString(),
+  speakers: getSpeakers(segments).map(label => ({ label, name: speakerName(label, names) })),
+  segments: segments.map(segment => ({
+    start: segment.start,
+    end: segment.end,
+    speaker: speakerName(segment.speaker, names),
+    speakerLabel: segment.speaker,
+    text: segment.text,
+  })),
+});
+
+/**
+ * Serializes a transcript as captions (SRT, WebVTT), readable text or JSON, with speakers
+ * under the names the user gave them.
+ */
+export const formatTranscriptExport = (
+  segments: TranscriptSegment[],
+  names: SpeakerNames,
+  title: string,
+  format: TranscriptExportFormat,
+): ExportFile => {
+  const baseName = title.replace(/\.[^.]+$/, '').substring(0, 50).replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'transcript';
+  switch (format) {
+    case 'srt':
+      return { fileName: `${baseName}.srt`, mimeType: 'application/x-subrip', content: toSrt(segments, names) };
+    case 'vtt':
+      return { fileName: `${baseName}.vtt`, mimeType: 'text/vtt', content: toVtt(segments, names) };
+    case 'txt':
+      return { fileName: `${baseName}.txt`, mimeType: 'text/plain', content: toText(segments, names) };
+    case 'json':
+      return { fileName: `${baseName}.json`, mimeType: 'application/json', content: JSON.stringify(toJson(segments, names, title), null, 2) };
+  }
+};
@@ -0,0 +1,201 @@
+import { supabase } from './supabaseClient';
+import type { TranscriptSegment } from './aiProvider';
+import type { SpeakerNames } from './transcriptExport';
+
+/** Live recognition in the browser, or Gemini transcribing a recording. */
+export type TranscriptionEngine = 'browser' | 'gemini';
+
+/** A saved transcript as listed in the history, without its segments. */
+export interface TranscriptSummary {
+  id: string;
+  title: string;
+  engine: TranscriptionEngine;
+  language: string | null;
+  audio_path: string | null;
+  audio_mime_type: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedTranscript extends TranscriptSummary {
+  segments: TranscriptSegment[];
+  speaker_names: SpeakerNames;
+}
+
+export interface NewTranscript {
+  title: string;
+  engine: TranscriptionEngine;
+  language?: string;
+  segments: TranscriptSegment[];
+  speakerNames: SpeakerNames;
+  /** The recording the transcript was made from, if there is one. */
+  audio?: File;
+}
+
+export interface TranscriptChanges {
+  title?: string;
+  segments?: TranscriptSegment[];
+  speakerNames?: SpeakerNames;
+}
+
+const AUDIO_BUCKET = 'transcript_audio';
+const SUMMARY_COLUMNS = 'id, title, engine, language, audio_path, audio_mime_type, created_at, updated_at';
+const TRANSCRIPT_COLUMNS = `${SUMMARY_COLUMNS}, segments, speaker_names`;
+const MAX_HISTORY = 200;
+const AUDIO_URL_TTL_SECONDS = 3600;
+
+// What full-text search matches against, besides the title.
+const toSearchContent = (segments: TranscriptSegment[]): string => segments.map(segment => segment.text).join(' ');
+
+/**
+ * Fetches the user's saved transcripts, most recently changed first.
+ * @param userId The ID of the authenticated user.
+ * @param search Words to look for in titles and transcript text.
+ */
+export const getTranscripts = async (userId: string, search?: string): Promise<TranscriptSummary[]> => {
+  let request = supabase
+    .from('transcripts')
+    .select(SUMMARY_COLUMNS)
+    .eq('user_id', userId);
+
+  if (search?.trim()) {
+    request = request.textSearch('search', search.trim(), { type: 'websearch', config: 'simple' });
+  }
+
+  const { data, error } = await request
+    .order('updated_at', { ascending: false })
+    .limit(MAX_HISTORY);
+
+  if (error) {
+    throw new Error(`Failed to fetch transcripts: ${error.message}`);
+  }
+  return data ?? [];
+};
+
+/**
+ * Fetches one transcript with its segments.
+ * @param userId The ID of the authenticated user.
+ * @param transcriptId The transcript to load.
+ */
+export const getTranscript = async (userId: string, transcriptId: string): Promise<SavedTranscript> => {
+  const { data, error } = await supabase
+    .from('transcripts')
+    .select(TRANSCRIPT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('id', transcriptId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load transcript: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Saves a transcript, uploading its recording to storage first.
+ * @param userId The ID of the authenticated user.
+ * @param transcript The transcript and the audio it was made from.
+ */
+export const saveTranscript = async (userId: string, transcript: NewTranscript): Promise<SavedTranscript> => {
+  let audioPath: string | null = null;
+  if (transcript.audio) {
+    const extension = transcript.audio.name.includes('.') ? transcript.audio.name.split('.').pop() : 'webm';
+    audioPath = `${userId}/${new Date().toISOString()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .upload(audioPath, transcript.audio, { contentType: transcript.audio.type || undefined });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload audio to storage: ${uploadError.message}`);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('transcripts')
+    .insert({
+      user_id: userId,
+      title: transcript.title,
+      engine: transcript.engine,
+      language: transcript.language || null,
+      segments: transcript.segments,
+      speaker_names: transcript.speakerNames,
+      content: toSearchContent(transcript.segments),
+      audio_path: audioPath,
+      audio_mime_type: transcript.audio?.type || null,
+    })
+    .select(TRANSCRIPT_COLUMNS)
+    .single();
+
+  if (error) {
+    if (audioPath) {
+      await supabase.storage.from(AUDIO_BUCKET).remove([audioPath]);
+    }
+    throw new Error(`Failed to save transcript: ${error.message}`);
+  }
+  return data;
+};
+
+/**
+ * Saves changes to a transcript: a new title, corrected segments or renamed speakers.
+ * @param userId The ID of the authenticated user.
+ * @param transcriptId The transcript to change.
+ * @param changes The fields to replace.
+ */
+export const updateTranscript = async (userId: string, transcriptId: string, changes: TranscriptChanges): Promise<void> => {
+  const { error } = await supabase
+    .from('transcripts')
+    .update({
+      ...(changes.title !== undefined ? { title: changes.title } : {}),
+      ...(changes.segments ? { segments: changes.segments, content: toSearchContent(changes.segments) } : {}),
+      ...(changes.speakerNames ? { speaker_names: changes.speakerNames } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('id', transcriptId);
+
+  if (error) {
+    throw new Error(`Failed to update transcript: ${error.message}`);
+  }
+};
+
+/**
+ * Deletes a transcript and its recording.
+ * @param userId The ID of the authenticated user.
+ * @param transcript The transcript to delete.
+ */
+export const deleteTranscript = async (userId: string, transcript: TranscriptSummary): Promise<void> => {
+  if (transcript.audio_path) {
+    const { error: storageError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .remove([transcript.audio_path]);
+
+    if (storageError) {
+      throw new Error(`Failed to delete audio from storage: ${storageError.message}`);
+    }
+  }
+
+  const { error } = await supabase
+    .from('transcripts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('id', transcript.id);
+
+  if (error) {
+    throw new Error(`Failed to delete transcript: ${error.message}`);
+  }
+};
+
+/**
+ * Creates a signed URL for a transcript's recording, valid for one hour.
+ * @param audioPath The recording's path in storage.
+ */
+export const createTranscriptAudioUrl = async (audioPath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .createSignedUrl(audioPath, AUDIO_URL_TTL_SECONDS);
+
+  if (error) {
+    throw new Error(`Failed to create audio URL: ${error.message}`);
+  }
+  return data.signedUrl;
+};
@@ -0,0 +1,41 @@
+-- Named conversation threads for the chatbot.
+-- Every chat_history row now belongs to a conversation.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default 'New conversation',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists conversations_user_updated_idx
+  on public.conversations (user_id, updated_at desc);
+
+alter table public.conversations enable row level security;
+
+drop policy if exists "Users manage their own conversations" on public.conversations;
+create policy "Users manage their own conversations"
+  on public.conversations for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table public.chat_history
+  add column if not exists conversation_id uuid references public.conversations (id) on delete cascade;
+
+create index if not exists chat_history_conversation_idx
+  on public.chat_history (conversation_id, created_at);
+
+-- Move any existing single-thread history into one conversation per user.
+insert into public.conversations (user_id, title, created_at, updated_at)
+select user_id, 'Earlier conversation', min(created_at), max(created_at)
+from public.chat_history
+where conversation_id is null
+group by user_id;
+
+update public.chat_history h
+set conversation_id = c.id
+from public.conversations c
+where h.conversation_id is null
+  and c.user_id = h.user_id
+  and c.title = 'Earlier conversation';
@@ -0,0 +1,17 @@
+-- Files attached to chatbot messages.
+-- The files live in the private `chat_attachments` bucket; each message keeps
+-- a list of { path, name, mime_type, size } entries pointing into it.
+
+alter table public.chat_history
+  add column if not exists attachments jsonb not null default '[]'::jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('chat_attachments', 'chat_attachments', false)
+on conflict (id) do nothing;
+
+-- Objects are stored under `<user_id>/...`, so the first folder is the owner.
+drop policy if exists "Users manage their own chat attachments" on storage.objects;
+create policy "Users manage their own chat attachments"
+  on storage.objects for all
+  using (bucket_id = 'chat_attachments' and auth.uid()::text = (storage.foldername(name))[1])
+  with check (bucket_id = 'chat_attachments' and auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,7 @@
+-- Rolling summaries for long conversations.
+-- The oldest `summarized_count` messages of a conversation are replaced in the
+-- model context by `summary`; they stay in chat_history for display.
+
+alter table public.conversations
+  add column if not exists summary text not null default '',
+  add column if not exists summarized_count integer not null default 0;
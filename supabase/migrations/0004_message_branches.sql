@@ -0,0 +1,55 @@
+-- Message branches: every chat message points at the message it replies to,
+-- so edited prompts and regenerated replies become siblings in a tree.
+
+alter table public.chat_history
+  add column if not exists message_id uuid not null default gen_random_uuid(),
+  add column if not exists parent_message_id uuid;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'chat_history_message_id_key') then
+    alter table public.chat_history
+      add constraint chat_history_message_id_key unique (message_id);
+  end if;
+
+  if not exists (select 1 from pg_constraint where conname = 'chat_history_parent_message_id_fkey') then
+    alter table public.chat_history
+      add constraint chat_history_parent_message_id_fkey
+      foreign key (parent_message_id) references public.chat_history (message_id) on delete cascade;
+  end if;
+end $$;
+
+create index if not exists chat_history_parent_idx
+  on public.chat_history (parent_message_id);
+
+-- Existing conversations are linear: chain each message to the one before it. A prompt and
+-- its reply were saved in one insert and share `created_at`, so the prompt is put first and
+-- the table's own key keeps the rest in insertion order; the new `message_id` is random.
+update public.chat_history h
+set parent_message_id = prev.previous_id
+from (
+  select message_id,
+         lag(message_id) over (partition by conversation_id order by created_at, (sender = 'user') desc, id) as previous_id
+  from public.chat_history
+) prev
+where h.message_id = prev.message_id
+  and h.parent_message_id is null
+  and prev.previous_id is not null;
+
+-- A summary now covers the path up to a specific message instead of the first N messages,
+-- so it stays valid on the branch it was made for.
+alter table public.conversations
+  add column if not exists summary_through_message_id uuid references public.chat_history (message_id) on delete set null;
+
+update public.conversations c
+set summary_through_message_id = covered.message_id
+from (
+  select conversation_id, message_id,
+         row_number() over (partition by conversation_id order by created_at, (sender = 'user') desc, id) as position
+  from public.chat_history
+) covered
+where covered.conversation_id = c.id
+  and covered.position = c.summarized_count
+  and c.summarized_count > 0;
+
+alter table public.conversations drop column if exists summarized_count;
@@ -0,0 +1,5 @@
+-- Prompts of every step that produced an edited image, oldest first.
+-- `prompt` keeps a readable one-line version of the same chain.
+
+alter table public.user_images
+  add column if not exists edit_prompts text[] not null default '{}';
@@ -0,0 +1,20 @@
+-- Server-side gallery browsing: full-text search over prompts, filtering by
+-- where an image came from, and an index for paging by date.
+
+alter table public.user_images
+  add column if not exists source text not null default 'generated'
+    check (source in ('generated', 'edited'));
+
+update public.user_images
+  set source = 'edited'
+  where cardinality(edit_prompts) > 0;
+
+alter table public.user_images
+  add column if not exists prompt_search tsvector
+    generated always as (to_tsvector('english', coalesce(prompt, ''))) stored;
+
+create index if not exists user_images_prompt_search_idx
+  on public.user_images using gin (prompt_search);
+
+create index if not exists user_images_user_created_idx
+  on public.user_images (user_id, created_at desc);
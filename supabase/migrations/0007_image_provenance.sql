@@ -0,0 +1,16 @@
+-- Where each saved image came from: the feature and model that made it, the settings used,
+-- and for images derived from another saved image, that image.
+
+alter table public.user_images
+  add column if not exists feature text not null default 'image-generation'
+    check (feature in ('image-generation', 'image-editor')),
+  add column if not exists model text,
+  add column if not exists parameters jsonb not null default '{}',
+  add column if not exists parent_id bigint references public.user_images (id) on delete set null;
+
+update public.user_images
+  set feature = 'image-editor'
+  where source = 'edited';
+
+create index if not exists user_images_parent_idx
+  on public.user_images (parent_id);
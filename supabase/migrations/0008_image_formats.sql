@@ -0,0 +1,6 @@
+-- The real format of each saved image, and a small preview stored next to it so the
+-- gallery grid doesn't load full-size originals. Older images have neither.
+
+alter table public.user_images
+  add column if not exists mime_type text,
+  add column if not exists thumbnail_path text;
@@ -0,0 +1,25 @@
+-- Reusable prompts, saved per user. `body` may contain {{variable}} placeholders that are
+-- filled in when the prompt is inserted. A null `feature` means the prompt fits any feature.
+
+create table if not exists public.prompts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  body text not null,
+  tags text[] not null default '{}',
+  feature text
+    check (feature in ('image-generator', 'image-editor', 'image-analyzer', 'complex-solver', 'tts')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists prompts_user_updated_idx
+  on public.prompts (user_id, updated_at desc);
+
+alter table public.prompts enable row level security;
+
+drop policy if exists "Users manage their own prompts" on public.prompts;
+create policy "Users manage their own prompts"
+  on public.prompts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Saved audio transcripts. `segments` holds the timed, speaker-labelled text and
+-- `speaker_names` the names given to the speaker labels; `content` is the segments' text
+-- in one string, kept by the app for search. The recording, if there is one, lives in the
+-- private `transcript_audio` bucket.
+
+create table if not exists public.transcripts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  engine text not null check (engine in ('browser', 'gemini')),
+  language text,
+  segments jsonb not null default '[]'::jsonb,
+  speaker_names jsonb not null default '{}'::jsonb,
+  content text not null default '',
+  audio_path text,
+  audio_mime_type text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Transcripts can be in any language, so words are matched without stemming.
+alter table public.transcripts
+  add column if not exists search tsvector
+    generated always as (to_tsvector('simple', title || ' ' || content)) stored;
+
+create index if not exists transcripts_search_idx
+  on public.transcripts using gin (search);
+
+create index if not exists transcripts_user_updated_idx
+  on public.transcripts (user_id, updated_at desc);
+
+alter table public.transcripts enable row level security;
+
+drop policy if exists "Users manage their own transcripts" on public.transcripts;
+create policy "Users manage their own transcripts"
+  on public.transcripts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+insert into storage.buckets (id, name, public)
+values ('transcript_audio', 'transcript_audio', false)
+on conflict (id) do nothing;
+
+-- Objects are stored under `<user_id>/...`, so the first folder is the owner.
+drop policy if exists "Users manage their own transcript audio" on storage.objects;
+create policy "Users manage their own transcript audio"
+  on storage.objects for all
+  using (bucket_id = 'transcript_audio' and auth.uid()::text = (storage.foldername(name))[1])
+  with check (bucket_id = 'transcript_audio' and auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,6 @@
+-- Knowledge base passages a bot reply was grounded in, so its [1], [2] citations still
+-- resolve after a reload. Each entry is { document_name, chunk_id, score, text }; the text
+-- is kept because the knowledge base lives in the browser and may change or be cleared.
+
+alter table public.chat_history
+  add column if not exists passages jsonb not null default '[]'::jsonb;
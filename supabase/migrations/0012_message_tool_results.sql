@@ -0,0 +1,6 @@
+-- What the chatbot's tools showed with a reply (search sources, generated images and
+-- speech), so the cards survive a reload. Images and speech point at the reply's
+-- attachment in the `chat_attachments` bucket by `path`.
+
+alter table public.chat_history
+  add column if not exists tool_results jsonb not null default '[]'::jsonb;